@@ -14,19 +14,25 @@
 
 import * as fs from "fs";
 import * as path from "path";
+import { validateSyncConfig } from "../../functions/src/utils/validate-sync-config";
 
-// Types copied here to avoid dependency on functions/src
+// Types copied here, only the config validator is shared with functions/src
 interface FieldDefinition {
   name: string;
   type: string;
   accessor?: string;
   formater?: string;
+  transforms?: { type: string; [option: string]: any }[];
   method?: string;
   arrayType?: string;
+  scale?: number;
+  rangeElementType?: string;
+  fields?: FieldDefinition[];
 }
 
 interface CollectionSyncConfig {
   id: string;
+  databaseId?: string;
   collectionPaths: string[];
   collectionGroup?: string;
   datasetId: string;
@@ -38,6 +44,13 @@ interface CollectionSyncConfig {
   transformUrl?: string;
   schedule: string;
   timeZone: string;
+  latenessMarginMinutes?: number;
+  filter?: object;
+  systemColumns?: string[];
+  historyMode?: boolean;
+  trackerTable?: object;
+  mainTable?: object;
+  strict?: boolean;
 }
 
 interface SyncConfiguration {
@@ -57,9 +70,12 @@ const DEFAULT_DATASET_LOCATION = process.env.DATASET_LOCATION || "eu";
 const DEFAULT_DATASET_ID = process.env.DATASET_ID || "firestore_sync";
 const DEFAULT_SCHEDULE = process.env.SCHEDULE || "0 0 * * *";
 const DEFAULT_TIME_ZONE = process.env.TIME_ZONE || "UTC";
+// Database with the change trigger, only checked when DATABASE_ID is set
+const DATABASE_ID = process.env.DATABASE_ID;
 
 interface RawCollectionConfig {
   id: string;
+  databaseId?: string;
   collectionPaths: string[];
   collectionGroup?: string;
   datasetId?: string;
@@ -70,6 +86,13 @@ interface RawCollectionConfig {
   transformUrl?: string;
   schedule?: string;
   timeZone?: string;
+  latenessMarginMinutes?: number;
+  filter?: object;
+  systemColumns?: string[];
+  historyMode?: boolean;
+  trackerTable?: object;
+  mainTable?: object;
+  strict?: boolean;
   fields: FieldDefinition[];
 }
 
@@ -116,6 +139,7 @@ function loadCollectionConfigs(): CollectionSyncConfig[] {
       // Apply defaults
       const config: CollectionSyncConfig = {
         id: rawConfig.id,
+        ...(rawConfig.databaseId && { databaseId: rawConfig.databaseId }),
         collectionPaths: rawConfig.collectionPaths,
         collectionGroup: rawConfig.collectionGroup,
         datasetId: rawConfig.datasetId || DEFAULT_DATASET_ID,
@@ -127,6 +151,17 @@ function loadCollectionConfigs(): CollectionSyncConfig[] {
         transformUrl: rawConfig.transformUrl,
         schedule: rawConfig.schedule || DEFAULT_SCHEDULE,
         timeZone: rawConfig.timeZone || DEFAULT_TIME_ZONE,
+        ...(rawConfig.latenessMarginMinutes !== undefined && {
+          latenessMarginMinutes: rawConfig.latenessMarginMinutes,
+        }),
+        ...(rawConfig.filter && { filter: rawConfig.filter }),
+        ...(rawConfig.systemColumns?.length && {
+          systemColumns: rawConfig.systemColumns,
+        }),
+        ...(rawConfig.historyMode && { historyMode: true }),
+        ...(rawConfig.trackerTable && { trackerTable: rawConfig.trackerTable }),
+        ...(rawConfig.mainTable && { mainTable: rawConfig.mainTable }),
+        ...(rawConfig.strict && { strict: true }),
         fields: rawConfig.fields,
       };
 
@@ -207,6 +242,16 @@ function main() {
     collections: configs,
   };
 
+  // Validate with the same rules the extension applies on install
+  const errors = validateSyncConfig(syncConfig, DATABASE_ID);
+
+  if (errors.length) {
+    console.error(`\n❌ Generated config is invalid:`);
+    errors.forEach((error) => console.error(`   ${error}`));
+    process.exitCode = 1;
+    return;
+  }
+
   fs.writeFileSync(OUTPUT_FILE, JSON.stringify(syncConfig, null, 2));
   console.log(`\n✅ Generated ${OUTPUT_FILE}`);
 
@@ -5,34 +5,121 @@ import {
   CollectionSyncConfig,
   ParsedFieldDefinition,
 } from "./types/sync-config.interface";
+import { SystemColumn } from "./types/system-column.enum";
+import { compileFilter } from "./utils/compile-filter";
+import { compileTransforms } from "./utils/compile-transforms";
+import { getPathParamNames } from "./utils/path-params";
+import { validateSyncConfig } from "./utils/validate-sync-config";
 
 /**
  * Global configuration
  */
 export const CONFIG = {
   instanceId: process.env.EXT_INSTANCE_ID!,
-  databaseId: "(default)",
+  databaseId: process.env.DATABASE_ID || "(default)",
   schedule: process.env.SCHEDULE || "0 0 * * *",
   timeZone: process.env.TIME_ZONE || "UTC",
+  syncCheckSchedule: process.env.SYNC_CHECK_SCHEDULE || "*/5 * * * *",
   datasetLocation: process.env.DATASET_LOCATION || "eu",
   transformUrl: process.env.TRANSFORM_URL,
   location: process.env.LOCATION || "us-central1",
+  allowUnsafeMethods: process.env.ALLOW_UNSAFE_METHODS === "true",
 };
 
 /**
- * Load sync configuration from SYNC_CONFIG environment variable
+ * Fields with a method while ALLOW_UNSAFE_METHODS is disabled, their
+ * values would be written without the method applied
+ * @param path JSON pointer of the fields
  */
-function loadSyncConfig(): SyncConfiguration | null {
+function unsafeMethodErrors(path: string, fields: any[]): string[] {
+  return fields.flatMap((field, index) => [
+    ...(field.method
+      ? [
+          `${path}/${index}/method: methods are disabled, set ALLOW_UNSAFE_METHODS to "true" or use transforms instead`,
+        ]
+      : []),
+    ...(field.fields
+      ? unsafeMethodErrors(`${path}/${index}/fields`, field.fields)
+      : []),
+  ]);
+}
+
+/**
+ * Load sync configuration from SYNC_CONFIG environment variable,
+ * a configuration that isn't valid is returned with its errors
+ */
+function loadSyncConfig(): {
+  syncConfig: SyncConfiguration | null;
+  errors: string[];
+} {
   const syncConfigEnv = process.env.SYNC_CONFIG;
-  if (syncConfigEnv) {
-    try {
-      return JSON.parse(syncConfigEnv) as SyncConfiguration;
-    } catch (e) {
-      console.warn("Failed to parse SYNC_CONFIG environment variable:", e);
-    }
+
+  if (!syncConfigEnv) {
+    return { syncConfig: null, errors: ["SYNC_CONFIG is not set"] };
   }
 
-  return null;
+  let syncConfig: SyncConfiguration;
+
+  try {
+    syncConfig = JSON.parse(syncConfigEnv);
+  } catch (e: any) {
+    return {
+      syncConfig: null,
+      errors: [`SYNC_CONFIG is not valid JSON: ${e.message}`],
+    };
+  }
+
+  const errors = validateSyncConfig(syncConfig, CONFIG.databaseId);
+
+  if (!errors.length && !CONFIG.allowUnsafeMethods) {
+    syncConfig.collections.forEach((collection, index) =>
+      errors.push(
+        ...unsafeMethodErrors(`/collections/${index}/fields`, collection.fields)
+      )
+    );
+  }
+
+  return { syncConfig: errors.length ? null : syncConfig, errors };
+}
+
+const { syncConfig, errors: syncConfigErrors } = loadSyncConfig();
+
+/**
+ * Errors that made SYNC_CONFIG unusable, nothing is synced when there are any
+ */
+export function getSyncConfigErrors(): string[] {
+  return syncConfigErrors;
+}
+
+/**
+ * Evaluate a custom method string, only allowed when
+ * ALLOW_UNSAFE_METHODS is explicitly enabled
+ */
+function parseMethod(
+  key: string,
+  methodStr?: string
+): ((value: any) => any) | undefined {
+  if (!methodStr) {
+    return;
+  }
+
+  // Configs with methods are rejected unless methods are allowed
+  if (!CONFIG.allowUnsafeMethods) {
+    return;
+  }
+
+  try {
+    const method = eval(methodStr);
+
+    if (typeof method !== "function") {
+      throw new Error("method doesn't evaluate to a function");
+    }
+
+    return method;
+  } catch (e) {
+    console.error(`Failed to evaluate method of field "${key}":`, e);
+    return;
+  }
 }
 
 /**
@@ -43,29 +130,82 @@ function parseFieldDefinition(field: any): ParsedFieldDefinition {
   const type = field.type;
   const accessorPath = field.accessor;
   const formater = field.formater;
-  const methodStr = field.method;
+  const method = parseMethod(key, field.method);
 
   return {
     key,
     type: type.split("_")[0],
     formater,
-    ...(methodStr && { method: eval(methodStr) }),
+    ...(field.arrayType && { arrayType: field.arrayType }),
+    ...(field.scale !== undefined && { scale: field.scale }),
+    ...(field.rangeElementType && {
+      rangeElementType: field.rangeElementType,
+    }),
+    ...(field.fields?.length && {
+      fields: field.fields.map(parseFieldDefinition),
+    }),
+    ...(method && { method }),
+    ...(field.transforms?.length && {
+      transform: compileTransforms(field.transforms),
+    }),
     accessor: accessorPath
       ? (value: any) => {
           if (has(value, accessorPath)) {
             return get(value, accessorPath);
           }
-          return "";
+          return undefined;
         }
-      : (value: any) => value[key] || "",
+      : (value: any) => value[key],
   };
 }
 
+/**
+ * BigQuery types of the system columns
+ */
+const SYSTEM_COLUMN_TYPES: { [column in SystemColumn]: string } = {
+  [SystemColumn.DOCUMENT_PATH]: "STRING",
+  [SystemColumn.COLLECTION_PATH]: "STRING",
+  [SystemColumn.CREATE_TIME]: "TIMESTAMP",
+  [SystemColumn.UPDATE_TIME]: "TIMESTAMP",
+  [SystemColumn.RAW_DOCUMENT]: "JSON",
+};
+
+/**
+ * Opted in system columns, formatted out of the document metadata
+ */
+function systemColumnFields(
+  config: CollectionSyncConfig
+): ParsedFieldDefinition[] {
+  return (config.systemColumns || []).map((column) => ({
+    key: column,
+    type: SYSTEM_COLUMN_TYPES[column],
+    system: true,
+    accessor: (value: any) => value[column],
+  }));
+}
+
+/**
+ * Every path wildcard is stored in a STRING column named after it,
+ * unless a field with the same name is already configured
+ */
+function pathParamFields(
+  config: CollectionSyncConfig
+): ParsedFieldDefinition[] {
+  return getPathParamNames(config.collectionPaths)
+    .filter((name) => !config.fields.some((field) => field.name === name))
+    .map((name) => ({
+      key: name,
+      type: "STRING",
+      accessor: (value: any) => value[name],
+    }));
+}
+
 /**
  * Convert collection config to runtime format
  */
 function toRuntimeConfig(
-  config: CollectionSyncConfig
+  config: CollectionSyncConfig,
+  syncConfig: SyncConfiguration
 ): RuntimeCollectionConfig {
   // Build regex patterns for each collection path
   const pathPatterns = config.collectionPaths.map((path) => {
@@ -83,18 +223,30 @@ function toRuntimeConfig(
 
   return {
     id: config.id,
+    databaseId: config.databaseId || CONFIG.databaseId,
     collectionPaths: config.collectionPaths,
     collectionGroup: config.collectionGroup,
     datasetId: config.datasetId,
     tableId: config.tableId,
     trackerTableId: `${config.tableId}-tracker`,
+    historyMode: config.historyMode || false,
+    historyTableId: `${config.tableId}-history`,
+    trackerTable: config.trackerTable,
+    mainTable: config.mainTable,
+    strict: config.strict || false,
     datasetLocation: config.datasetLocation,
     backfill: config.backfill,
     includeParentIdInDocumentId: config.includeParentIdInDocumentId || false,
-    transformUrl: config.transformUrl,
-    schedule: config.schedule,
-    timeZone: config.timeZone,
-    fields: config.fields.map(parseFieldDefinition),
+    transformUrl: config.transformUrl || CONFIG.transformUrl,
+    schedule: config.schedule || syncConfig.defaultSchedule || CONFIG.schedule,
+    timeZone: config.timeZone || syncConfig.defaultTimeZone || CONFIG.timeZone,
+    latenessMarginMinutes: config.latenessMarginMinutes ?? 10,
+    fields: [
+      ...systemColumnFields(config),
+      ...pathParamFields(config),
+      ...config.fields.map(parseFieldDefinition),
+    ],
+    matchesFilter: config.filter ? compileFilter(config.filter) : () => true,
     pathPattern: combinedPattern,
   };
 }
@@ -103,31 +255,31 @@ function toRuntimeConfig(
  * Get all collection configurations as runtime configs
  */
 export function getCollectionConfigs(): RuntimeCollectionConfig[] {
-  const syncConfig = loadSyncConfig();
-
-  if (syncConfig && syncConfig.collections.length > 0) {
-    return syncConfig.collections.map(toRuntimeConfig);
+  if (syncConfig) {
+    return syncConfig.collections.map((config) =>
+      toRuntimeConfig(config, syncConfig)
+    );
   }
 
   return [];
 }
 
 /**
- * Find the matching collection config for a document path
+ * Find all collection configs matching a document path,
+ * a single document can be synced to multiple tables
  */
-export function findMatchingConfig(
+export function findMatchingConfigs(
+  databaseId: string,
   documentPath: string,
   configs: RuntimeCollectionConfig[]
-): RuntimeCollectionConfig | undefined {
+): RuntimeCollectionConfig[] {
   // Remove document ID from path for matching
   const pathParts = documentPath.split("/");
   const collectionPath = pathParts.slice(0, -1).join("/");
 
-  for (const config of configs) {
-    if (config.pathPattern.test(collectionPath)) {
-      return config;
-    }
-  }
-
-  return undefined;
+  return configs.filter(
+    (config) =>
+      config.databaseId === databaseId &&
+      config.pathPattern.test(collectionPath)
+  );
 }
@@ -1,13 +1,42 @@
-import { BigQuery } from "@google-cloud/bigquery";
+import { BigQuery, TableField, TableMetadata } from "@google-cloud/bigquery";
 import * as admin from "firebase-admin";
 import { getExtensions } from "firebase-admin/extensions";
-import { getFirestore, FieldPath } from "firebase-admin/firestore";
+import { getFirestore, FieldPath, FieldValue } from "firebase-admin/firestore";
 import { DateTime } from "luxon";
-import { CONFIG, getCollectionConfigs, findMatchingConfig } from "./config";
+import {
+  CONFIG,
+  getCollectionConfigs,
+  getSyncConfigErrors,
+  findMatchingConfigs,
+} from "./config";
 import { ChangeType } from "./types/change-type.enum";
+import { DeadLetter } from "./types/dead-letter.interface";
+import { DeadLetterStatus } from "./types/dead-letter-status.enum";
+import { BackfillCheckpoint } from "./types/backfill-checkpoint.interface";
+import { BackfillStatus } from "./types/backfill-status.enum";
 import { RuntimeCollectionConfig } from "./types/sync-config.interface";
-import { formatDocument } from "./utils/format-document";
-import { pubsub, tasks, logger, firestore } from "firebase-functions/v1";
+import { formatDocument, formatDocuments } from "./utils/format-document";
+import { insertId } from "./utils/insert-id";
+import { isSyncDue } from "./utils/is-sync-due";
+import { qualityRows } from "./utils/quality-report";
+import {
+  backfillHistoryQuery,
+  backfillMergeQuery,
+  latestChangeQuery,
+  syncMergeQuery,
+} from "./utils/sql-builder";
+import { composeDocumentId, extractPathParams } from "./utils/path-params";
+import { diffSchema } from "./utils/diff-schema";
+import { diffTableOptions } from "./utils/diff-table-options";
+import {
+  historyTableSchema,
+  mainTableSchema,
+  qualityTableSchema,
+  stagingTableSchema,
+  trackerTableSchema,
+} from "./utils/table-schema";
+import { pubsub, tasks, logger, Change } from "firebase-functions/v1";
+import { onDocumentWritten } from "firebase-functions/v2/firestore";
 import { getFunctions } from "firebase-admin/functions";
 
 if (admin.apps.length === 0) {
@@ -17,106 +46,301 @@ if (admin.apps.length === 0) {
 // Load all collection configurations
 const collectionConfigs = getCollectionConfigs();
 
+const BACKFILL_BATCH_SIZE = 500;
+/** Leaves room for the last page within the 540s function timeout */
+const BACKFILL_TIME_BUDGET_MS = 1000 * 60 * 5;
+const BACKFILL_STAGING_EXPIRATION_MS = 1000 * 60 * 60 * 24 * 7;
+const DEAD_LETTER_BATCH_SIZE = 200;
+const DEAD_LETTER_MAX_ATTEMPTS = 5;
+const QUALITY_TABLE_ID = "_sync_quality";
+/** Longer than the 540s sync timeout, claims only expire once their run died */
+const SYNC_LEASE_MS = 1000 * 60 * 10;
+
+if (getSyncConfigErrors().length) {
+  logger.error(
+    `SYNC_CONFIG is invalid, no collections are synced:\n${getSyncConfigErrors().join(
+      "\n"
+    )}`
+  );
+}
+
 logger.info(`Loaded ${collectionConfigs.length} collection configurations`);
 
+/**
+ * Store values that couldn't be converted in the quality table of the
+ * collection's dataset. Failures are only logged, so quality reporting
+ * never blocks the sync.
+ */
+async function writeQualityIssues(
+  bq: BigQuery,
+  config: RuntimeCollectionConfig,
+  rows: ReturnType<typeof qualityRows>
+): Promise<void> {
+  if (!rows.length) {
+    return;
+  }
+
+  logger.warn(
+    `${rows.length} values of ${config.id} couldn't be converted, see ${config.datasetId}.${QUALITY_TABLE_ID}`
+  );
+
+  try {
+    await bq
+      .dataset(config.datasetId)
+      .table(QUALITY_TABLE_ID)
+      .insert(rows, { raw: true });
+  } catch (e: any) {
+    logger.error(`Failed writing quality issues of ${config.id}`, e);
+  }
+}
+
+/**
+ * Format a change and write it to the tracker table of a collection,
+ * the timestamp of create and update events is the document update time.
+ * Returns false when the change is rejected in strict mode, which is
+ * final: the rejection is reported in the quality table and not retried.
+ */
+async function writeTrackerRow(
+  config: RuntimeCollectionConfig,
+  fullPath: string,
+  changeType: ChangeType,
+  after: any,
+  event: { eventId?: string; timestamp?: string; createTime?: string } = {}
+): Promise<boolean> {
+  const docId = fullPath.split("/").pop()!;
+  const pathParams = extractPathParams(config.collectionPaths, fullPath) || {};
+
+  const bq = new BigQuery();
+
+  // Only format document for create/update (when data exists)
+  let data: any = {};
+  if (changeType !== ChangeType.DELETED) {
+    const formatted = await formatDocument(after || {}, config, {
+      path: fullPath,
+      pathParams,
+      createTime: event.createTime,
+      updateTime: event.timestamp,
+    });
+
+    if (formatted.issues.length) {
+      await writeQualityIssues(
+        bq,
+        config,
+        qualityRows(
+          config,
+          "change",
+          [{ path: fullPath, version: event.eventId, formatted }],
+          config.strict
+        )
+      );
+
+      if (config.strict) {
+        logger.warn(
+          `Rejected ${changeType} of ${fullPath} (${
+            config.id
+          }) in strict mode: ${formatted.issues
+            .map((issue) => `${issue.field}: ${issue.reason}`)
+            .join(", ")}`
+        );
+        return false;
+      }
+    }
+
+    data = formatted.row;
+  }
+
+  const row = {
+    changeType,
+    // Commit time of the change, so out of order deliveries keep their order
+    timestamp: event.timestamp || new Date().toISOString(),
+    eventId: event.eventId || null,
+    ...(changeType === ChangeType.DELETED
+      ? { documentId: composeDocumentId(config, docId, pathParams) }
+      : data),
+  };
+
+  await bq
+    .dataset(config.datasetId)
+    .table(config.trackerTableId)
+    .insert(
+      [
+        {
+          // Retried and replayed events are deduplicated by BigQuery
+          ...(event.eventId && {
+            insertId: insertId(fullPath, event.eventId),
+          }),
+          json: row,
+        },
+      ],
+      { raw: true }
+    );
+
+  return true;
+}
+
 /**
  * Handles document write events for all collections
+ * @param eventId ID of the change event, used to deduplicate retries
+ * @param eventTime Time of the change, used for deletions
  */
 async function handleDocumentWrite(
-  change: any,
-  ctx: any,
+  change: Change<FirebaseFirestore.DocumentSnapshot>,
+  eventId: string,
+  eventTime: string,
+  databaseId: string,
   fullPath: string
 ): Promise<void> {
-  const config = findMatchingConfig(fullPath, collectionConfigs);
+  const configs = findMatchingConfigs(databaseId, fullPath, collectionConfigs);
 
-  if (!config) {
-    logger.warn(`No matching config found for path: ${fullPath}`);
+  if (!configs.length) {
+    logger.warn(
+      `No matching config found for path: ${fullPath} (${databaseId})`
+    );
     return;
   }
 
-  try {
-    const existsBefore = change.before.exists;
-    const existsAfter = change.after.exists;
-    let changeType: ChangeType;
-
-    if (!existsBefore && existsAfter) {
-      changeType = ChangeType.CREATED;
-    } else if (existsBefore && existsAfter) {
-      changeType = ChangeType.UPDATED;
-    } else if (existsBefore && !existsAfter) {
-      changeType = ChangeType.DELETED;
-    } else {
-      return;
-    }
+  const existsBefore = change.before.exists;
+  const existsAfter = change.after.exists;
+  const before = existsBefore ? change.before.data() : null;
+  const after = existsAfter ? change.after.data() : null;
+  const event = {
+    eventId,
+    timestamp: existsAfter
+      ? change.after.updateTime!.toDate().toISOString()
+      : eventTime,
+    createTime: existsAfter
+      ? change.after.createTime!.toDate().toISOString()
+      : undefined,
+  };
 
-    // Extract parent ID from path if applicable
-    const pathParts = fullPath.split("/");
-    let parentId: string | undefined;
-
-    // Look for wildcard patterns in config paths to extract parentId
-    for (const configPath of config.collectionPaths) {
-      const match = configPath.match(/\{(\w+)\}/);
-      if (match) {
-        const configParts = configPath.split("/");
-        const wildcardIndex = configParts.findIndex((p) => p.startsWith("{"));
-        if (wildcardIndex !== -1 && pathParts[wildcardIndex]) {
-          parentId = pathParts[wildcardIndex];
-          break;
+  // Every matching table is written independently
+  await Promise.all(
+    configs.map(async (config) => {
+      /**
+       * Documents only exist for a config while they match its filter,
+       * so starting or stopping to match creates or deletes them
+       */
+      const matchesBefore = existsBefore && config.matchesFilter(before);
+      const matchesAfter = existsAfter && config.matchesFilter(after);
+      let changeType: ChangeType;
+
+      if (!matchesBefore && matchesAfter) {
+        changeType = ChangeType.CREATED;
+      } else if (matchesBefore && matchesAfter) {
+        changeType = ChangeType.UPDATED;
+      } else if (matchesBefore && !matchesAfter) {
+        changeType = ChangeType.DELETED;
+      } else {
+        return;
+      }
+
+      try {
+        if (
+          !(await writeTrackerRow(config, fullPath, changeType, after, event))
+        ) {
+          return;
         }
+
+        logger.info(
+          `Processed ${changeType} for ${fullPath} → ${config.datasetId}.${config.trackerTableId}`
+        );
+      } catch (e: any) {
+        logger.error(
+          `Error handling onWrite for path ${fullPath} (${config.id})`,
+          e
+        );
+
+        await storeDeadLetter(getFirestore(config.databaseId), config, {
+          path: fullPath,
+          changeType,
+          before,
+          after,
+          error: errorMessage(e),
+          eventId: event.eventId,
+          eventTimestamp: event.timestamp,
+          ...(event.createTime && { createTime: event.createTime }),
+          status: DeadLetterStatus.PENDING,
+          attempts: 0,
+          createdOn: new Date().toISOString(),
+        });
       }
+    })
+  );
+}
+
+/**
+ * Catch-all trigger of the database set in DATABASE_ID, a 2nd gen
+ * trigger so named databases are supported. The trigger pattern is
+ * defined in extension.yaml as {collection}/{document=**}, writes are
+ * routed to the matching collection configs.
+ */
+exports.fsExportToBqOnWrite = onDocumentWritten(
+  {
+    document: "{collection}/{document=**}",
+    database: CONFIG.databaseId,
+    // Leaves room for every transform endpoint attempt and the dead letter
+    timeoutSeconds: 300,
+  },
+  async (event) => {
+    if (!event.data) {
+      return;
     }
 
-    const docId = existsAfter ? change.after.id : change.before.id;
+    await handleDocumentWrite(
+      event.data,
+      event.id,
+      event.time,
+      event.database,
+      event.document
+    );
+  }
+);
 
-    // Only format document for create/update (when data exists)
-    let data: any = {};
-    if (changeType !== ChangeType.DELETED) {
-      data = await formatDocument(
-        {
-          ...(change.after.data() || {}),
-          ...(parentId && { parentId }),
-        },
-        docId,
-        config
-      );
-    }
+/**
+ * Reference to the document holding sync state for a single collection
+ */
+function getSettingsRef(
+  fs: FirebaseFirestore.Firestore,
+  config: RuntimeCollectionConfig
+): FirebaseFirestore.DocumentReference {
+  return fs.collection("bq-sync").doc(`${CONFIG.instanceId}-${config.id}`);
+}
 
-    const bq = new BigQuery();
-    await bq
-      .dataset(config.datasetId)
-      .table(config.trackerTableId)
-      .insert({
-        changeType,
-        timestamp: new Date().toISOString(),
-        ...(changeType === ChangeType.DELETED
-          ? {
-              documentId:
-                config.includeParentIdInDocumentId && parentId
-                  ? `${parentId}-${docId}`
-                  : docId,
-            }
-          : data),
-      });
+/**
+ * Collection holding the failed change events of a single collection
+ */
+function getDeadLettersRef(
+  fs: FirebaseFirestore.Firestore,
+  config: RuntimeCollectionConfig
+): FirebaseFirestore.CollectionReference {
+  return getSettingsRef(fs, config).collection("dead-letters");
+}
 
-    logger.info(
-      `Processed ${changeType} for ${fullPath} → ${config.datasetId}.${config.trackerTableId}`
-    );
-  } catch (e: any) {
-    logger.error(`Error handling onWrite for path ${fullPath}`, e);
+/**
+ * Readable message out of an error, including BigQuery insert errors
+ */
+function errorMessage(e: any): string {
+  if (e?.errors?.length) {
+    return `${e.message}: ${JSON.stringify(e.errors)}`;
   }
+
+  return e?.message || String(e);
 }
 
 /**
- * Single catch-all trigger for all document writes.
- * The trigger pattern is defined in extension.yaml as {collection}/{document=**}
- * This handles all collections and routes to the appropriate config.
+ * Persist a failed change event so it can be replayed later
  */
-exports.fsExportToBqOnChange = firestore
-  .document("{collection}/{document=**}")
-  .onWrite(async (change, ctx) => {
-    const fullPath = ctx.resource.name.split("/documents/")[1];
-    await handleDocumentWrite(change, ctx, fullPath);
-  });
+async function storeDeadLetter(
+  fs: FirebaseFirestore.Firestore,
+  config: RuntimeCollectionConfig,
+  deadLetter: DeadLetter
+): Promise<void> {
+  try {
+    await getDeadLettersRef(fs, config).add(deadLetter);
+  } catch (e: any) {
+    logger.error(`Failed storing dead letter for ${deadLetter.path}`, e);
+  }
+}
 
 /**
  * Sync tracker table data to main table for a single collection
@@ -126,148 +350,409 @@ async function syncTrackerToMainTable(
   fs: FirebaseFirestore.Firestore,
   config: RuntimeCollectionConfig
 ): Promise<void> {
-  const settingsRef = fs
-    .collection("bq-sync")
-    .doc(`${CONFIG.instanceId}-${config.id}`);
+  const settingsRef = getSettingsRef(fs, config);
   const doc = await settingsRef.get();
-  const { lastRunDate } = doc.data() || {};
-
-  const endTime = DateTime.now().toISO();
-  const startTime = lastRunDate
-    ? DateTime.fromISO(lastRunDate).toISO()
-    : DateTime.now().minus({ years: 100 }).toISO();
-
-  const fields = config.fields;
-  const selection = fields
-    .map(
-      ({ key, type }) =>
-        `ARRAY_AGG(${
-          type === "ARRAY"
-            ? `ARRAY_TO_STRING(\`${key}\`, ",")`
-            : type === "JSON"
-            ? `TO_JSON_STRING(\`${key}\`)`
-            : `\`${key}\``
-        } IGNORE NULLS ORDER BY timestamp DESC)[OFFSET(0)] AS \`${key}\``
-    )
-    .join(",");
-  const update = fields
-    .map(
-      ({ key, type }) =>
-        `\`${key}\` = IF(n.\`${key}\` is not NULL, ${
-          type === "ARRAY"
-            ? `SPLIT(n.\`${key}\`, ",")`
-            : type === "JSON"
-            ? `PARSE_JSON(n.\`${key}\`)`
-            : `n.\`${key}\``
-        }, i.\`${key}\`)`
-    )
-    .join(",");
-
-  const query = `
-    BEGIN TRANSACTION;
-
-    CREATE TEMP TABLE tmp AS
-      SELECT
-        documentId,
-        ${selection},
-        (SELECT COUNTIF(changeType = 'CREATED') 
-         FROM \`${config.datasetId}.${config.trackerTableId}\` sub
-         WHERE sub.documentId = n.documentId
-         AND sub.timestamp BETWEEN "${startTime}" AND "${endTime}") AS createdCount,
-        (SELECT COUNTIF(changeType = 'DELETED') 
-         FROM \`${config.datasetId}.${config.trackerTableId}\` sub
-         WHERE sub.documentId = n.documentId
-         AND sub.timestamp BETWEEN "${startTime}" AND "${endTime}") AS deletedCount
-      FROM
-        \`${config.datasetId}.${config.trackerTableId}\` n
-      WHERE
-        timestamp >= COALESCE((
-          SELECT
-            MAX(timestamp)
-          FROM
-            \`${config.datasetId}.${config.trackerTableId}\`
-          WHERE
-            documentId = n.documentId
-            AND changeType = 'CREATED'
-        ), TIMESTAMP('1970-01-01'))
-      AND timestamp BETWEEN "${startTime}" AND "${endTime}"
-      GROUP BY
-        documentId;
-
-    INSERT INTO \`${config.datasetId}.${config.tableId}\`
-    SELECT
-      documentId,
-      ${fields
-        .map(
-          (f) =>
-            `${
-              f.type === "ARRAY"
-                ? `SPLIT(\`${f.key}\`, ",")`
-                : f.type === "JSON"
-                ? `PARSE_JSON(\`${f.key}\`)`
-                : `\`${f.key}\``
-            } as \`${f.key}\``
-        )
-        .join(",")}
-    FROM tmp
-    WHERE 
-      createdCount > deletedCount
-      AND NOT EXISTS (
-        SELECT 1
-        FROM \`${config.datasetId}.${config.tableId}\` i
-        WHERE i.documentId = tmp.documentId
-      );
+  const { lastRunDate, watermark, replayedFrom } = doc.data() || {};
+
+  /**
+   * The window starts a lateness margin before the latest change that was
+   * merged, so rows streamed in late are still picked up. Replayed dead
+   * letters keep their commit time, so the window is moved back to the
+   * oldest replayed change. Re-merging rows is idempotent as the latest
+   * change of every document is applied.
+   */
+  const starts = [watermark || lastRunDate, replayedFrom]
+    .filter(Boolean)
+    .map((time: string) => DateTime.fromISO(time));
+  const startTime = starts.length
+    ? DateTime.min(...starts)
+        .minus({ minutes: config.latenessMarginMinutes })
+        .toISO()!
+    : DateTime.now().minus({ years: 100 }).toISO()!;
+
+  // The window ends at the latest change visible right now
+  const [[latest]] = await bq.query({
+    ...latestChangeQuery(config, startTime),
+    location: config.datasetLocation,
+  });
+
+  if (!latest?.watermark) {
+    await settingsRef.set(
+      { lastRunDate: DateTime.now().toISO() },
+      { merge: true }
+    );
+    return;
+  }
 
-    DELETE \`${config.datasetId}.${config.tableId}\` i
-    WHERE EXISTS
-      (SELECT * from tmp as n
-      WHERE i.documentId = n.documentId AND n.deletedCount > n.createdCount);
-    
-    UPDATE \`${config.datasetId}.${config.tableId}\` i
-    SET ${update}
-    FROM tmp n
-    WHERE
-      i.documentId = n.documentId;
-
-    DROP TABLE tmp;
-    COMMIT TRANSACTION;  
-  `;
+  const endTime: string = latest.watermark.value;
 
   const [job] = await bq.createQueryJob({
-    query,
+    ...syncMergeQuery(config, startTime, endTime),
     location: config.datasetLocation,
   });
 
   await job.getQueryResults();
 
-  await settingsRef.set(
-    {
-      lastRunDate: DateTime.now().toISO(),
-    },
-    { merge: true }
-  );
+  // Dead letters replayed while the merge ran are merged on the next run
+  await fs.runTransaction(async (transaction) => {
+    const current = (await transaction.get(settingsRef)).data() || {};
+
+    transaction.set(
+      settingsRef,
+      {
+        lastRunDate: DateTime.now().toISO(),
+        watermark: endTime,
+        ...(current.replayedFrom === replayedFrom && {
+          replayedFrom: FieldValue.delete(),
+        }),
+      },
+      { merge: true }
+    );
+  });
+}
+
+/**
+ * Move the start of the next sync window back to the oldest replayed
+ * change, the watermark is usually past it by the time it's replayed
+ * @param replayedFrom ISO commit time of the oldest replayed change
+ */
+async function markReplayed(
+  fs: FirebaseFirestore.Firestore,
+  config: RuntimeCollectionConfig,
+  replayedFrom: string
+): Promise<void> {
+  const settingsRef = getSettingsRef(fs, config);
+
+  await fs.runTransaction(async (transaction) => {
+    const current = (await transaction.get(settingsRef)).data() || {};
+
+    if (
+      !current.replayedFrom ||
+      DateTime.fromISO(replayedFrom) < DateTime.fromISO(current.replayedFrom)
+    ) {
+      transaction.set(settingsRef, { replayedFrom }, { merge: true });
+    }
+  });
+}
+
+/**
+ * Claim the sync of a collection when it's due, so overlapping scheduled
+ * runs don't merge into the same table or replay dead letters twice.
+ * The claim is released when the sync ends or expires after SYNC_LEASE_MS.
+ * @returns Whether this run synced the collection
+ */
+async function claimSync(
+  fs: FirebaseFirestore.Firestore,
+  config: RuntimeCollectionConfig
+): Promise<boolean> {
+  const settingsRef = getSettingsRef(fs, config);
+
+  return fs.runTransaction(async (transaction) => {
+    const { lastRunDate, syncStartedOn } =
+      (await transaction.get(settingsRef)).data() || {};
+
+    if (!isSyncDue(config.schedule, config.timeZone, lastRunDate)) {
+      return false;
+    }
+
+    if (
+      syncStartedOn &&
+      DateTime.fromISO(syncStartedOn).plus({ milliseconds: SYNC_LEASE_MS }) >
+        DateTime.now()
+    ) {
+      logger.info(`Sync of ${config.id} is already running, skipping`);
+      return false;
+    }
+
+    transaction.set(
+      settingsRef,
+      { syncStartedOn: DateTime.now().toISO() },
+      { merge: true }
+    );
+
+    return true;
+  });
 }
 
 /**
- * Scheduled function to sync all tracker tables to main tables
+ * Scheduled function that runs frequently and syncs the tracker tables
+ * of all collections whose own schedule is due to their main tables
  */
 exports.fsUpdatePrimaryTable = pubsub
-  .schedule(CONFIG.schedule)
+  .schedule(CONFIG.syncCheckSchedule)
   .timeZone(CONFIG.timeZone)
   .onRun(async () => {
     const bq = new BigQuery();
-    const fs = getFirestore();
-
     for (const config of collectionConfigs) {
+      const fs = getFirestore(config.databaseId);
+
+      try {
+        if (!(await claimSync(fs, config))) {
+          continue;
+        }
+      } catch (e: any) {
+        logger.error(`Failed to claim the sync of ${config.id}`, e);
+        continue;
+      }
+
+      // A failed replay enqueue never blocks the sync of the collection
+      try {
+        await enqueueDeadLetterReplay(fs, config);
+      } catch (e: any) {
+        logger.error(
+          `Failed to enqueue dead letter replay for ${config.id}`,
+          e
+        );
+      }
+
       try {
         await syncTrackerToMainTable(bq, fs, config);
         logger.info(`Successfully synced ${config.id} to main table`);
       } catch (e: any) {
         logger.error(`Failed to sync ${config.id} to main table`, e);
+      } finally {
+        await getSettingsRef(fs, config)
+          .set({ syncStartedOn: FieldValue.delete() }, { merge: true })
+          .catch((e) =>
+            logger.warn(`Failed to release the sync of ${config.id}`, e)
+          );
       }
     }
   });
 
+/**
+ * Enqueue a replay task when a collection has pending dead letters
+ */
+async function enqueueDeadLetterReplay(
+  fs: FirebaseFirestore.Firestore,
+  config: RuntimeCollectionConfig
+): Promise<void> {
+  const { empty } = await getDeadLettersRef(fs, config)
+    .where("status", "==", DeadLetterStatus.PENDING)
+    .limit(1)
+    .get();
+
+  if (empty) {
+    return;
+  }
+
+  await getFunctions()
+    .taskQueue(
+      `locations/${CONFIG.location}/functions/replayDeadLetters`,
+      CONFIG.instanceId
+    )
+    .enqueue({ collectionId: config.id });
+
+  logger.info(`Enqueued dead letter replay for ${config.id}`);
+}
+
+/**
+ * Retries pending dead letters of a single collection in batches.
+ * Dead letters that keep failing are marked as FAILED after
+ * DEAD_LETTER_MAX_ATTEMPTS and have to be reset to PENDING manually.
+ */
+exports.replayDeadLetters = tasks
+  .taskQueue()
+  .onDispatch(async (data: { collectionId: string }) => {
+    const config = collectionConfigs.find((c) => c.id === data.collectionId);
+
+    if (!config) {
+      logger.error(`No config found for collection ID: ${data.collectionId}`);
+      return;
+    }
+
+    const fs = getFirestore(config.databaseId);
+    const { docs } = await getDeadLettersRef(fs, config)
+      .where("status", "==", DeadLetterStatus.PENDING)
+      .limit(DEAD_LETTER_BATCH_SIZE)
+      .get();
+
+    let replayed = 0;
+    let replayedFrom: string | undefined;
+
+    for (const doc of docs) {
+      const deadLetter = doc.data() as DeadLetter;
+      const attempts = (deadLetter.attempts || 0) + 1;
+
+      try {
+        const written = await writeTrackerRow(
+          config,
+          deadLetter.path,
+          deadLetter.changeType,
+          deadLetter.after,
+          {
+            eventId: deadLetter.eventId,
+            timestamp: deadLetter.eventTimestamp,
+            createTime: deadLetter.createTime,
+          }
+        );
+
+        // Strict mode rejections are final, they'd fail every replay
+        if (!written) {
+          await doc.ref.update({
+            status: DeadLetterStatus.FAILED,
+            attempts,
+            error: `Rejected in strict mode, see ${config.datasetId}.${QUALITY_TABLE_ID}`,
+          });
+          continue;
+        }
+
+        await doc.ref.update({
+          status: DeadLetterStatus.REPLAYED,
+          attempts,
+          replayedOn: new Date().toISOString(),
+        });
+        replayed++;
+
+        if (
+          deadLetter.eventTimestamp &&
+          (!replayedFrom ||
+            DateTime.fromISO(deadLetter.eventTimestamp) <
+              DateTime.fromISO(replayedFrom))
+        ) {
+          replayedFrom = deadLetter.eventTimestamp;
+        }
+      } catch (e: any) {
+        await doc.ref.update({
+          status:
+            attempts >= DEAD_LETTER_MAX_ATTEMPTS
+              ? DeadLetterStatus.FAILED
+              : DeadLetterStatus.PENDING,
+          attempts,
+          error: errorMessage(e),
+        });
+      }
+    }
+
+    if (replayedFrom) {
+      await markReplayed(fs, config, replayedFrom);
+    }
+
+    logger.info(
+      `Replayed ${replayed} of ${docs.length} dead letters for ${config.id}`
+    );
+
+    if (docs.length === DEAD_LETTER_BATCH_SIZE) {
+      await getFunctions()
+        .taskQueue(
+          `locations/${CONFIG.location}/functions/replayDeadLetters`,
+          CONFIG.instanceId
+        )
+        .enqueue({ collectionId: config.id });
+    }
+  });
+
+/**
+ * Create a table or, when it already exists, add the configured
+ * columns it's missing. Returns the schema changes that have to
+ * be migrated manually.
+ */
+async function ensureTable(
+  bq: BigQuery,
+  config: RuntimeCollectionConfig,
+  tableId: string,
+  label: string,
+  metadata: TableMetadata & { schema: TableField[] }
+): Promise<string[]> {
+  const dataset = bq.dataset(config.datasetId);
+
+  try {
+    await dataset.createTable(tableId, metadata);
+    logger.info(`Created ${label} table ${tableId}`);
+    return [];
+  } catch (e: any) {
+    if (e.code !== 409) {
+      logger.warn(`Failed creating ${label} table ${tableId}`, e);
+      return [];
+    }
+  }
+
+  const table = dataset.table(tableId);
+  const [live] = await table.getMetadata();
+  const liveFields: TableField[] = live.schema?.fields || [];
+  const { schema, added, migrations } = diffSchema(
+    tableId,
+    liveFields,
+    metadata.schema
+  );
+  const options = diffTableOptions(tableId, live, metadata);
+  const patch: TableMetadata = {
+    ...options.metadata,
+    ...(added.length && { schema: { fields: schema } }),
+  };
+
+  if (Object.keys(patch).length) {
+    await table.setMetadata(patch);
+
+    if (added.length) {
+      logger.info(`Added columns ${added.join(", ")} to ${tableId}`);
+    }
+
+    if (Object.keys(options.metadata).length) {
+      logger.info(`Updated partitioning and clustering of ${tableId}`);
+    }
+  }
+
+  return [...migrations, ...options.migrations];
+}
+
+/**
+ * Surface pending schema migrations and backfill progress
+ * of all collections in the extension processing state
+ */
+async function reportProcessingState(): Promise<void> {
+  // Settings documents live in the database of their collection
+  const docs = await Promise.all(
+    collectionConfigs.map((c) =>
+      getSettingsRef(getFirestore(c.databaseId), c).get()
+    )
+  );
+  const migrations: string[] = [];
+  const backfills: string[] = [];
+
+  docs.forEach((doc, index) => {
+    const config = collectionConfigs[index];
+    const { schemaMigrations, backfill } = doc.data() || {};
+
+    migrations.push(...(schemaMigrations || []));
+
+    if (config.backfill && backfill) {
+      const checkpoint = backfill as BackfillCheckpoint;
+      backfills.push(
+        `${config.id} ${
+          checkpoint.status === BackfillStatus.COMPLETE
+            ? "complete"
+            : "in progress"
+        } (${checkpoint.total} documents${
+          checkpoint.error ? `, retrying after error: ${checkpoint.error}` : ""
+        })`
+      );
+    }
+  });
+
+  const messages = [
+    ...(migrations.length
+      ? [`Schema migrations required: ${migrations.join("; ")}`]
+      : []),
+    ...(backfills.length ? [`Backfill: ${backfills.join(", ")}`] : []),
+  ];
+
+  if (!messages.length) {
+    return;
+  }
+
+  if (migrations.length) {
+    logger.warn("Schema migrations required", migrations);
+  }
+
+  await getExtensions()
+    .runtime()
+    .setProcessingState(
+      migrations.length ? "PROCESSING_WARNING" : "PROCESSING_COMPLETE",
+      messages.join(". ")
+    );
+}
+
 /**
  * Initialize BigQuery tables for a single collection
  */
@@ -288,78 +773,75 @@ async function initializeCollection(
     }
   }
 
-  // Prepare field schema for tracker table (JSON stored as STRING for aggregation)
-  const trackerFields = config.fields.map((f) => ({
-    name: f.key,
-    type: f.type === "ARRAY" || f.type === "JSON" ? "STRING" : f.type,
-    mode: f.type === "ARRAY" ? "REPEATED" : "NULLABLE",
-  }));
-
-  // Prepare field schema for main table (uses native JSON type)
-  const mainFields = config.fields.map((f) => ({
-    name: f.key,
-    type: f.type === "ARRAY" ? "STRING" : f.type,
-    mode: f.type === "ARRAY" ? "REPEATED" : "NULLABLE",
-  }));
-
-  // Create tracker table
-  try {
-    await bq.dataset(config.datasetId).createTable(config.trackerTableId, {
+  const { trackerTable, mainTable } = config;
+  const trackerRetentionDays = trackerTable?.retentionDays ?? 30;
+  const migrations = [
+    ...(await ensureTable(bq, config, config.trackerTableId, "tracker", {
       timePartitioning: {
         field: "timestamp",
-        type: "HOUR",
-        expirationMs: (1000 * 60 * 60 * 24 * 30).toString(),
+        type: trackerTable?.partitionType || "HOUR",
+        ...(trackerRetentionDays > 0 && {
+          expirationMs: (1000 * 60 * 60 * 24 * trackerRetentionDays).toString(),
+        }),
       },
-      schema: [
-        { name: "changeType", type: "STRING", mode: "REQUIRED" },
-        { name: "timestamp", type: "TIMESTAMP", mode: "REQUIRED" },
-        { name: "documentId", type: "STRING", mode: "REQUIRED" },
-        ...trackerFields,
-      ],
-    });
-    logger.info(`Created tracker table ${config.trackerTableId}`);
-  } catch (e: any) {
-    if (e.code !== 409) {
-      logger.warn(`Failed creating tracking table ${config.trackerTableId}`, e);
-    }
-  }
+      schema: trackerTableSchema(config),
+    })),
+    ...(await ensureTable(bq, config, config.tableId, "main", {
+      ...(mainTable?.partitionField && {
+        timePartitioning: {
+          field: mainTable.partitionField,
+          type: mainTable.partitionType || "DAY",
+        },
+      }),
+      ...(mainTable?.clustering?.length && {
+        clustering: { fields: mainTable.clustering },
+      }),
+      schema: mainTableSchema(config),
+    })),
+    ...(await ensureTable(bq, config, QUALITY_TABLE_ID, "quality", {
+      timePartitioning: { field: "timestamp", type: "DAY" },
+      schema: qualityTableSchema(),
+    })),
+    ...(config.historyMode
+      ? await ensureTable(bq, config, config.historyTableId, "history", {
+          clustering: { fields: ["documentId"] },
+          schema: historyTableSchema(config),
+        })
+      : []),
+  ];
 
-  // Create main table
-  try {
-    await bq.dataset(config.datasetId).createTable(config.tableId, {
-      schema: [
-        { name: "documentId", type: "STRING", mode: "REQUIRED" },
-        ...mainFields,
-      ],
-    });
-    logger.info(`Created main table ${config.tableId}`);
-  } catch (e: any) {
-    if (e.code !== 409) {
-      logger.warn(`Failed creating table ${config.tableId}`, e);
-    }
-  }
+  await getSettingsRef(fs, config).set(
+    { schemaMigrations: migrations },
+    { merge: true }
+  );
 
   // Backfill if enabled
   if (config.backfill) {
     logger.info(`Starting backfill for ${config.id}`);
-    const batchSize = 500;
-
-    if (config.collectionGroup) {
-      await backfillCollectionGroup(fs, batchSize, bq, config);
-    } else {
-      for (const path of config.collectionPaths) {
-        if (!path.includes("{")) {
-          await backfillCollection(fs, batchSize, bq, config, path);
-        }
-      }
-    }
+    await startBackfill(bq, fs, config);
   }
+
+  await reportProcessingState();
 }
 
 /**
  * Initialization task that dispatches individual tasks for each collection
  */
 exports.initBigQuerySyncFirebase = tasks.taskQueue().onDispatch(async () => {
+  const configErrors = getSyncConfigErrors();
+
+  if (configErrors.length) {
+    await getExtensions()
+      .runtime()
+      .setProcessingState(
+        "PROCESSING_FAILED",
+        `SYNC_CONFIG is invalid, fix it and reconfigure the extension: ${configErrors.join(
+          "; "
+        )}`
+      );
+    return;
+  }
+
   logger.info(
     `Dispatching initialization tasks for ${collectionConfigs.length} collections`
   );
@@ -387,11 +869,23 @@ exports.initBigQuerySyncFirebase = tasks.taskQueue().onDispatch(async () => {
 });
 
 /**
- * Processes initialization for a single collection
+ * Payload of processCollectionInit tasks
+ */
+interface CollectionInitTask {
+  collectionId: string;
+  /** Set for tasks continuing a backfill */
+  chunk?: number;
+  /** Staging table identifying the backfill run the chunk belongs to */
+  stagingTableId?: string;
+}
+
+/**
+ * Processes initialization for a single collection. Tasks with a
+ * chunk number continue the backfill run of their staging table.
  */
 exports.processCollectionInit = tasks
   .taskQueue()
-  .onDispatch(async (data: { collectionId: string }) => {
+  .onDispatch(async (data: CollectionInitTask) => {
     const config = collectionConfigs.find((c) => c.id === data.collectionId);
 
     if (!config) {
@@ -399,10 +893,15 @@ exports.processCollectionInit = tasks
       return;
     }
 
-    logger.info(`Initializing collection: ${config.id}`);
-
     const bq = new BigQuery();
-    const fs = getFirestore();
+    const fs = getFirestore(config.databaseId);
+
+    if (typeof data.chunk === "number") {
+      await runBackfillChunk(bq, fs, config, data.chunk, data.stagingTableId);
+      return;
+    }
+
+    logger.info(`Initializing collection: ${config.id}`);
 
     try {
       await initializeCollection(bq, fs, config);
@@ -413,108 +912,324 @@ exports.processCollectionInit = tasks
     }
   });
 
-async function backfillCollection(
-  fs: FirebaseFirestore.Firestore,
-  batchSize: number,
-  bq: BigQuery,
+/**
+ * Enqueue a processCollectionInit task continuing the backfill
+ * @param stagingTableId Staging table identifying the backfill run
+ */
+async function enqueueBackfillChunk(
   config: RuntimeCollectionConfig,
-  path: string
+  chunk: number,
+  stagingTableId: string
 ): Promise<void> {
-  logger.info(`Backfilling collection: ${path}`);
-  let ref: any = null;
-  let total = 0;
+  await getFunctions()
+    .taskQueue(
+      `locations/${CONFIG.location}/functions/processCollectionInit`,
+      CONFIG.instanceId
+    )
+    .enqueue({ collectionId: config.id, chunk, stagingTableId });
+}
+
+/**
+ * Create a fresh staging table, reset the backfill checkpoint
+ * of a collection and enqueue the first chunk
+ */
+async function startBackfill(
+  bq: BigQuery,
+  fs: FirebaseFirestore.Firestore,
+  config: RuntimeCollectionConfig
+): Promise<void> {
+  const now = new Date().toISOString();
+  const stagingTableId = `${config.tableId}-backfill-${Date.now()}`;
 
-  do {
-    let col: any = fs.collection(path).orderBy(FieldPath.documentId());
+  await bq.dataset(config.datasetId).createTable(stagingTableId, {
+    expirationTime: (Date.now() + BACKFILL_STAGING_EXPIRATION_MS).toString(),
+    schema: stagingTableSchema(config),
+  });
 
-    if (ref) {
-      col = col.startAt(ref);
-    }
+  const checkpoint: BackfillCheckpoint = {
+    status: BackfillStatus.RUNNING,
+    stagingTableId,
+    sourceIndex: 0,
+    cursor: null,
+    chunk: 0,
+    total: 0,
+    startedOn: now,
+    updatedOn: now,
+    error: null,
+  };
+
+  await getSettingsRef(fs, config).set(
+    { backfill: checkpoint },
+    { mergeFields: ["backfill"] }
+  );
+  await enqueueBackfillChunk(config, 0, stagingTableId);
+}
+
+interface BackfillSource {
+  label: string;
+  /** Collection group sources use full document paths as cursors */
+  group: boolean;
+  query: FirebaseFirestore.Query;
+}
 
-    const { docs } = await col.limit(batchSize + 1).get();
-    const rows: any[] = [];
+/**
+ * Queries backfilled for a collection, in order
+ */
+function getBackfillSources(
+  fs: FirebaseFirestore.Firestore,
+  config: RuntimeCollectionConfig
+): BackfillSource[] {
+  if (config.collectionGroup) {
+    return [
+      {
+        label: `collection group ${config.collectionGroup}`,
+        group: true,
+        query: fs.collectionGroup(config.collectionGroup),
+      },
+    ];
+  }
 
-    total += docs.length;
+  return config.collectionPaths
+    .filter((path) => !path.includes("{"))
+    .map((path) => ({
+      label: `collection ${path}`,
+      group: false,
+      query: fs.collection(path),
+    }));
+}
 
-    await Promise.allSettled(
-      docs.slice(0, batchSize).map(async (doc: any) => {
-        const data = doc.data();
-        const document: any = await formatDocument(data, doc.id, config);
-        rows.push(document);
-      })
-    );
+/**
+ * Backfill a single page of documents after the cursor
+ */
+async function backfillPage(
+  bq: BigQuery,
+  config: RuntimeCollectionConfig,
+  stagingTableId: string,
+  source: BackfillSource,
+  cursor: string | null
+): Promise<{ count: number; cursor: string | null; done: boolean }> {
+  let query = source.query.orderBy(FieldPath.documentId());
+
+  if (cursor) {
+    query = query.startAfter(cursor);
+  }
 
-    if (!rows.length) {
-      break;
+  const { docs } = await query.limit(BACKFILL_BATCH_SIZE).get();
+  const synced = docs.flatMap((doc) => {
+    const data = doc.data();
+    const pathParams = extractPathParams(config.collectionPaths, doc.ref.path);
+
+    // Collection groups also return collections outside the configured paths
+    if (!pathParams || !config.matchesFilter(data)) {
+      return [];
     }
 
-    ref = docs[batchSize];
+    return [{ doc, data, pathParams }];
+  });
+
+  // Transform endpoint failures fail the chunk, which is then retried
+  const documents = await formatDocuments(
+    synced.map(({ doc, data, pathParams }) => ({
+      data,
+      metadata: {
+        path: doc.ref.path,
+        pathParams,
+        createTime: doc.createTime.toDate().toISOString(),
+        updateTime: doc.updateTime.toDate().toISOString(),
+      },
+    })),
+    config
+  );
+  const versions = synced.map(({ doc }, index) => ({
+    path: doc.ref.path,
+    version: doc.updateTime.toMillis().toString(),
+    updateTime: doc.updateTime.toDate().toISOString(),
+    formatted: documents[index],
+  }));
+
+  await writeQualityIssues(
+    bq,
+    config,
+    qualityRows(config, "backfill", versions, config.strict)
+  );
+
+  // Documents with issues are left out in strict mode
+  const rows = versions
+    .filter(({ formatted }) => !config.strict || !formatted.issues.length)
+    .map(({ path, version, updateTime, formatted }) => ({
+      insertId: insertId(path, version),
+      json: { ...formatted.row, timestamp: updateTime },
+    }));
 
+  if (rows.length) {
     try {
-      await bq.dataset(config.datasetId).table(config.tableId).insert(rows);
+      await bq
+        .dataset(config.datasetId)
+        .table(stagingTableId)
+        .insert(rows, { raw: true });
     } catch (e: any) {
       logger.write({
         severity: "ERROR",
-        message: `Backfill errors for collection ${path}`,
+        message: `Backfill errors for ${source.label}`,
         errors: e,
       });
+
+      // Fails the chunk, which is retried from the last stored cursor
+      throw e;
     }
-  } while (ref);
+  }
+
+  const last = docs[docs.length - 1];
 
-  logger.info(`Backfilled ${total} documents for collection ${path}`);
+  return {
+    count: docs.length,
+    cursor: last ? (source.group ? last.ref.path : last.id) : cursor,
+    done: docs.length < BACKFILL_BATCH_SIZE,
+  };
 }
 
-async function backfillCollectionGroup(
-  fs: FirebaseFirestore.Firestore,
-  batchSize: number,
+/**
+ * Merge the latest staged version of every document into the main table.
+ * Documents that are already in the main table are left as they are, so
+ * re-running a backfill never duplicates documents. Documents with a newer
+ * change in the tracker table are left to the sync, so deletions during
+ * the backfill stick.
+ */
+async function mergeBackfill(
   bq: BigQuery,
-  config: RuntimeCollectionConfig
+  config: RuntimeCollectionConfig,
+  stagingTableId: string,
+  startedOn: string
 ): Promise<void> {
-  logger.info(`Backfilling collection group: ${config.collectionGroup}`);
-  let ref: any = null;
-  let total = 0;
+  const [job] = await bq.createQueryJob({
+    ...backfillMergeQuery(config, stagingTableId),
+    location: config.datasetLocation,
+  });
 
-  do {
-    let col: any = fs
-      .collectionGroup(config.collectionGroup!)
-      .orderBy(FieldPath.documentId());
+  await job.getQueryResults();
 
-    if (ref) {
-      col = col.startAt(ref);
-    }
+  if (config.historyMode) {
+    const [historyJob] = await bq.createQueryJob({
+      ...backfillHistoryQuery(config, stagingTableId, startedOn),
+      location: config.datasetLocation,
+    });
 
-    const { docs } = await col.limit(batchSize + 1).get();
-    const rows: any[] = [];
+    await historyJob.getQueryResults();
+  }
 
-    total += docs.length;
+  try {
+    await bq.dataset(config.datasetId).table(stagingTableId).delete();
+  } catch (e: any) {
+    logger.warn(`Failed deleting staging table ${stagingTableId}`, e);
+  }
+}
 
-    await Promise.allSettled(
-      docs.slice(0, batchSize).map(async (doc: any) => {
-        const data = doc.data();
-        data.parentId = doc.ref.parent.parent?.id;
-        const document: any = await formatDocument(data, doc.id, config);
-        rows.push(document);
-      })
-    );
+/**
+ * Backfill pages of a collection until the time budget of the task
+ * is used up, storing the cursor after every page. Enqueues the next
+ * chunk when there are documents left. Tasks of an earlier run (another
+ * staging table) or an earlier chunk are stale and skipped.
+ */
+async function runBackfillChunk(
+  bq: BigQuery,
+  fs: FirebaseFirestore.Firestore,
+  config: RuntimeCollectionConfig,
+  chunk: number,
+  stagingTableId?: string
+): Promise<void> {
+  const settingsRef = getSettingsRef(fs, config);
+  const doc = await settingsRef.get();
+  const checkpoint: BackfillCheckpoint | undefined = doc.data()?.backfill;
+
+  if (
+    !checkpoint ||
+    checkpoint.status !== BackfillStatus.RUNNING ||
+    checkpoint.stagingTableId !== stagingTableId ||
+    checkpoint.chunk !== chunk
+  ) {
+    logger.warn(`Skipping stale backfill chunk ${chunk} for ${config.id}`);
+    return;
+  }
+
+  const sources = getBackfillSources(fs, config);
+  const startedAt = Date.now();
+  let { sourceIndex, cursor, total } = checkpoint;
 
-    if (!rows.length) {
-      break;
+  try {
+    while (
+      sourceIndex < sources.length &&
+      Date.now() - startedAt < BACKFILL_TIME_BUDGET_MS
+    ) {
+      const source = sources[sourceIndex];
+      const page = await backfillPage(
+        bq,
+        config,
+        checkpoint.stagingTableId,
+        source,
+        cursor
+      );
+
+      total += page.count;
+
+      if (page.done) {
+        logger.info(`Backfilled ${source.label} for ${config.id}`);
+        sourceIndex++;
+        cursor = null;
+      } else {
+        cursor = page.cursor;
+      }
+
+      await settingsRef.set(
+        {
+          backfill: {
+            sourceIndex,
+            cursor,
+            total,
+            updatedOn: new Date().toISOString(),
+            error: null,
+          },
+        },
+        { merge: true }
+      );
     }
+  } catch (e: any) {
+    logger.error(`Backfill chunk ${chunk} failed for ${config.id}`, e);
+    await settingsRef.set(
+      { backfill: { error: errorMessage(e) } },
+      { merge: true }
+    );
+    await reportProcessingState();
+    throw e; // Re-throw to trigger retry
+  }
 
-    ref = docs[batchSize];
+  if (sourceIndex >= sources.length) {
+    await mergeBackfill(
+      bq,
+      config,
+      checkpoint.stagingTableId,
+      checkpoint.startedOn
+    );
+    await settingsRef.set(
+      { backfill: { status: BackfillStatus.COMPLETE } },
+      { merge: true }
+    );
+    logger.info(`Backfilled ${total} documents for ${config.id}`);
+  } else {
+    await settingsRef.set({ backfill: { chunk: chunk + 1 } }, { merge: true });
 
     try {
-      await bq.dataset(config.datasetId).table(config.tableId).insert(rows);
+      await enqueueBackfillChunk(config, chunk + 1, checkpoint.stagingTableId);
     } catch (e: any) {
-      logger.write({
-        severity: "ERROR",
-        message: `Backfill errors for collection group ${config.collectionGroup}`,
-        errors: e,
-      });
+      await settingsRef.set({ backfill: { chunk } }, { merge: true });
+      throw e;
     }
-  } while (ref);
 
-  logger.info(
-    `Backfilled ${total} documents for collection group ${config.collectionGroup}`
-  );
+    logger.info(
+      `Backfilled ${total} documents for ${config.id}, continuing in chunk ${
+        chunk + 1
+      }`
+    );
+  }
+
+  await reportProcessingState();
 }
@@ -0,0 +1,28 @@
+import { BackfillStatus } from "./backfill-status.enum";
+
+/**
+ * Progress of a chunked backfill, stored in the bq-sync settings document
+ */
+export interface BackfillCheckpoint {
+  status: BackfillStatus;
+  /**
+   * Table the backfilled rows are streamed into before they are
+   * merged into the main table once the backfill completes
+   */
+  stagingTableId: string;
+  /** Index of the collection path (or group) currently being backfilled */
+  sourceIndex: number;
+  /**
+   * Last backfilled document ID, the full document path
+   * for collection groups
+   */
+  cursor: string | null;
+  /** Sequence number of the task allowed to continue the backfill */
+  chunk: number;
+  /** Number of documents backfilled so far */
+  total: number;
+  startedOn: string;
+  updatedOn: string;
+  /** Last error, cleared when a chunk succeeds */
+  error?: string | null;
+}
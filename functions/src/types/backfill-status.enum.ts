@@ -0,0 +1,4 @@
+export enum BackfillStatus {
+  RUNNING = "RUNNING",
+  COMPLETE = "COMPLETE",
+}
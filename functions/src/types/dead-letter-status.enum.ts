@@ -0,0 +1,5 @@
+export enum DeadLetterStatus {
+  PENDING = "PENDING",
+  REPLAYED = "REPLAYED",
+  FAILED = "FAILED",
+}
@@ -0,0 +1,27 @@
+import { ChangeType } from "./change-type.enum";
+import { DeadLetterStatus } from "./dead-letter-status.enum";
+
+/**
+ * Change event that failed to be written to the tracker table
+ */
+export interface DeadLetter {
+  /** Full document path */
+  path: string;
+  changeType: ChangeType;
+  /** Raw document data before the change */
+  before: any | null;
+  /** Raw document data after the change */
+  after: any | null;
+  /** Last error that occurred while processing the event */
+  error: string;
+  eventId?: string;
+  /** ISO time of the original event */
+  eventTimestamp?: string;
+  /** ISO time the document was created */
+  createTime?: string;
+  status: DeadLetterStatus;
+  /** Number of replay attempts */
+  attempts: number;
+  createdOn: string;
+  replayedOn?: string;
+}
@@ -0,0 +1,26 @@
+export type FilterOperator =
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "in"
+  | "not-in"
+  | "array-contains"
+  | "exists"
+  | "not-exists";
+
+/**
+ * Declarative predicate a document has to match to be synced
+ */
+export type DocumentFilter =
+  | { and: DocumentFilter[] }
+  | { or: DocumentFilter[] }
+  | {
+      /** JSON pointer path of the compared value (e.g. "/status") */
+      pointer: string;
+      operator: FilterOperator;
+      /** Compared value, an array for "in" and "not-in" */
+      value?: any;
+    };
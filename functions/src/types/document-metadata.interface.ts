@@ -0,0 +1,13 @@
+/**
+ * Firestore metadata of a document that is formatted for BigQuery
+ */
+export interface DocumentMetadata {
+  /** Full document path */
+  path: string;
+  /** Values of the path wildcards, stored in their own columns */
+  pathParams: { [name: string]: string };
+  /** ISO time the document was created */
+  createTime?: string;
+  /** ISO time the document was last updated */
+  updateTime?: string;
+}
@@ -0,0 +1,27 @@
+/**
+ * Declarative transformation applied to a field value.
+ * Transforms listed on a field are chained in order, string and
+ * number transforms are applied to every item when the value is an array.
+ */
+export type FieldTransform =
+  | { type: "lowercase" }
+  | { type: "uppercase" }
+  | { type: "trim" }
+  /** Multiply a numeric value */
+  | { type: "multiply"; by: number }
+  /** Round a numeric value to the given number of decimals (default 0) */
+  | { type: "round"; decimals?: number }
+  /** Replace a missing value ("", null or undefined) */
+  | { type: "default"; value: any }
+  /** Map values through a lookup table, unmatched values use the fallback if set */
+  | { type: "mapValues"; values: { [key: string]: any }; fallback?: any }
+  /** Split a string into an array */
+  | { type: "split"; separator: string }
+  /** Join an array into a string */
+  | { type: "join"; separator: string }
+  /** Parse a string date with a luxon format (e.g. "dd.MM.yyyy") */
+  | { type: "dateFromFormat"; format: string; timeZone?: string }
+  /** Use the first non missing value out of the JSON pointer paths if the value is missing */
+  | { type: "coalesce"; accessors: string[] }
+  /** Check if a string or array contains the value */
+  | { type: "includes"; value: any; caseInsensitive?: boolean };
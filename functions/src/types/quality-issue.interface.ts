@@ -0,0 +1,10 @@
+/**
+ * Field value that couldn't be converted to the type of its column
+ */
+export interface QualityIssue {
+  /** Column of the value, nested columns and array items are dot separated (e.g. "shipping.address.city", "tags.2") */
+  field: string;
+  /** The value before it was converted */
+  value: any;
+  reason: string;
+}
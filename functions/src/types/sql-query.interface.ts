@@ -0,0 +1,8 @@
+/**
+ * BigQuery query with its named parameters
+ */
+export interface SqlQuery {
+  query: string;
+  /** Values of the @name parameters used in the query */
+  params: { [name: string]: any };
+}
@@ -1,4 +1,11 @@
 import { BigQueryType } from "./biquery-type.type";
+import { DocumentFilter } from "./document-filter.type";
+import { FieldTransform } from "./field-transform.type";
+import { SystemColumn } from "./system-column.enum";
+import {
+  MainTableOptions,
+  TrackerTableOptions,
+} from "./table-options.interface";
 
 /**
  * Field definition for BigQuery table
@@ -12,10 +19,28 @@ export interface FieldDefinition {
   accessor?: string;
   /** JSON pointer path for formatting array items */
   formater?: string;
-  /** Custom transformation method as string (will be eval'd) */
+  /** Declarative transformations applied in order to the accessed value */
+  transforms?: FieldTransform[];
+  /**
+   * Custom transformation method as string (will be eval'd).
+   * Ignored unless ALLOW_UNSAFE_METHODS is enabled, prefer transforms.
+   */
   method?: string;
   /** For ARRAY type, specifies the element type */
   arrayType?: string;
+  /**
+   * Decimals NUMERIC and BIGNUMERIC values (and array items)
+   * are rounded to (default: 9 for NUMERIC, 38 for BIGNUMERIC)
+   */
+  scale?: number;
+  /** For RANGE type, the type of the bounds (default: "DATE") */
+  rangeElementType?: "DATE" | "DATETIME" | "TIMESTAMP";
+  /**
+   * Nested field definitions for STRUCT fields and ARRAY fields with
+   * arrayType STRUCT (repeated records). Accessors are relative to the
+   * nested object.
+   */
+  fields?: FieldDefinition[];
 }
 
 /**
@@ -24,6 +49,8 @@ export interface FieldDefinition {
 export interface CollectionSyncConfig {
   /** Unique identifier for this sync configuration */
   id: string;
+  /** Firestore database the collections are in (default: DATABASE_ID) */
+  databaseId?: string;
   /** Collection paths to sync (supports wildcards like {parentId}) */
   collectionPaths: string[];
   /** Optional collection group name for collection group queries */
@@ -46,6 +73,32 @@ export interface CollectionSyncConfig {
   schedule: string;
   /** Timezone for the schedule */
   timeZone: string;
+  /**
+   * Minutes before the last merged change the next sync window starts at,
+   * picks up tracker rows that were streamed in late (default 10)
+   */
+  latenessMarginMinutes?: number;
+  /**
+   * Only documents matching the filter are synced, documents
+   * that stop matching it are removed from the table
+   */
+  filter?: DocumentFilter;
+  /** Firestore metadata columns added to the tables (none by default) */
+  systemColumns?: SystemColumn[];
+  /**
+   * Keep every version of the documents in a permanent history
+   * table ({tableId}-history) next to the current state table
+   */
+  historyMode?: boolean;
+  /** Partitioning and retention of the tracker table */
+  trackerTable?: TrackerTableOptions;
+  /** Partitioning and clustering of the main table */
+  mainTable?: MainTableOptions;
+  /**
+   * Reject documents with values that can't be converted to their
+   * column type, instead of writing the values as NULL (default: false)
+   */
+  strict?: boolean;
 }
 
 /**
@@ -71,17 +124,40 @@ export interface ParsedFieldDefinition {
   key: string;
   type: string;
   formater?: string;
+  scale?: number;
+  rangeElementType?: string;
+  arrayType?: string;
+  fields?: ParsedFieldDefinition[];
   accessor: (data: any) => any;
+  transform?: (value: any, data: any) => any;
   method?: (value: any) => any;
+  /** Filled from the document metadata instead of the document data */
+  system?: boolean;
 }
 
 /**
  * Runtime collection config with parsed fields
  */
 export interface RuntimeCollectionConfig
-  extends Omit<CollectionSyncConfig, "fields"> {
+  extends Omit<
+    CollectionSyncConfig,
+    | "databaseId"
+    | "fields"
+    | "latenessMarginMinutes"
+    | "filter"
+    | "systemColumns"
+    | "historyMode"
+    | "strict"
+  > {
+  databaseId: string;
   fields: ParsedFieldDefinition[];
+  latenessMarginMinutes: number;
+  /** Whether document data matches the configured filter */
+  matchesFilter: (data: any) => boolean;
   trackerTableId: string;
+  historyMode: boolean;
+  historyTableId: string;
+  strict: boolean;
   /** Regex pattern to match document paths */
   pathPattern: RegExp;
 }
@@ -0,0 +1,15 @@
+/**
+ * Opt-in columns filled with Firestore metadata of the synced document
+ */
+export enum SystemColumn {
+  /** Full document path (STRING) */
+  DOCUMENT_PATH = "documentPath",
+  /** Path of the collection the document is in (STRING) */
+  COLLECTION_PATH = "collectionPath",
+  /** Time the document was created (TIMESTAMP) */
+  CREATE_TIME = "createTime",
+  /** Time the document was last updated (TIMESTAMP) */
+  UPDATE_TIME = "updateTime",
+  /** The whole document as it's stored in Firestore (JSON) */
+  RAW_DOCUMENT = "rawDocument",
+}
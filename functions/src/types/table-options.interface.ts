@@ -0,0 +1,26 @@
+/**
+ * Granularity of time partitioned tables
+ */
+export type PartitionType = "HOUR" | "DAY" | "MONTH" | "YEAR";
+
+/**
+ * Options of the tracker table, which is partitioned on the change timestamp
+ */
+export interface TrackerTableOptions {
+  /** Partition granularity (default: "HOUR") */
+  partitionType?: PartitionType;
+  /** Days partitions are kept for, 0 keeps them forever (default: 30) */
+  retentionDays?: number;
+}
+
+/**
+ * Partitioning and clustering of the main table
+ */
+export interface MainTableOptions {
+  /** TIMESTAMP, DATE or DATETIME column the table is partitioned on */
+  partitionField?: string;
+  /** Partition granularity (default: "DAY") */
+  partitionType?: PartitionType;
+  /** Up to four columns the table is clustered by (e.g. ["documentId"]) */
+  clustering?: string[];
+}
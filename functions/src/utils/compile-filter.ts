@@ -0,0 +1,70 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { get, has } from "json-pointer";
+import { DocumentFilter } from "../types/document-filter.type";
+
+/**
+ * Timestamps are compared as ISO strings so they can be
+ * matched against dates written in the configuration
+ */
+function normalize(value: any): any {
+  if (value instanceof Timestamp) {
+    return value.toDate().toISOString();
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return value;
+}
+
+/**
+ * Compile a document filter into a predicate
+ * @param filter Filter from the collection configuration
+ */
+export function compileFilter(filter: DocumentFilter): (data: any) => boolean {
+  if ("and" in filter) {
+    const predicates = filter.and.map(compileFilter);
+    return (data) => predicates.every((predicate) => predicate(data));
+  }
+
+  if ("or" in filter) {
+    const predicates = filter.or.map(compileFilter);
+    return (data) => predicates.some((predicate) => predicate(data));
+  }
+
+  const { pointer, operator } = filter;
+  const expected = normalize(filter.value);
+
+  return (data) => {
+    const exists = has(data, pointer);
+    const value = exists ? normalize(get(data, pointer)) : undefined;
+
+    switch (operator) {
+      case "exists":
+        return exists;
+      case "not-exists":
+        return !exists;
+      case "==":
+        return value === expected;
+      case "!=":
+        return value !== expected;
+      case "<":
+        return exists && value < expected;
+      case "<=":
+        return exists && value <= expected;
+      case ">":
+        return exists && value > expected;
+      case ">=":
+        return exists && value >= expected;
+      case "in":
+        return Array.isArray(expected) && expected.includes(value);
+      case "not-in":
+        return Array.isArray(expected) && !expected.includes(value);
+      case "array-contains":
+        return Array.isArray(value) && value.map(normalize).includes(expected);
+      default:
+        throw new Error(`Unknown filter operator "${operator}"`);
+    }
+  };
+}
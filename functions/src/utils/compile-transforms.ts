@@ -0,0 +1,131 @@
+import { get, has } from "json-pointer";
+import { DateTime } from "luxon";
+import { FieldTransform } from "../types/field-transform.type";
+
+type TransformFn = (value: any, data: any) => any;
+
+function isMissing(value: any) {
+  return value === undefined || value === null || value === "";
+}
+
+function toNumber(value: any): number | undefined {
+  if (typeof value === "number") {
+    return value;
+  }
+
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+
+  return undefined;
+}
+
+/**
+ * Apply a per item transform to every array item, or to the value itself
+ */
+function eachItem(fn: (value: any) => any): TransformFn {
+  return (value) => (Array.isArray(value) ? value.map(fn) : fn(value));
+}
+
+function stringTransform(fn: (value: string) => any): TransformFn {
+  return eachItem((value) => (typeof value === "string" ? fn(value) : value));
+}
+
+function numberTransform(fn: (value: number) => number): TransformFn {
+  return eachItem((value) => {
+    const num = toNumber(value);
+    return num === undefined ? value : fn(num);
+  });
+}
+
+function compileTransform(transform: FieldTransform): TransformFn {
+  switch (transform.type) {
+    case "lowercase":
+      return stringTransform((value) => value.toLowerCase());
+    case "uppercase":
+      return stringTransform((value) => value.toUpperCase());
+    case "trim":
+      return stringTransform((value) => value.trim());
+    case "multiply":
+      return numberTransform((value) => value * transform.by);
+    case "round": {
+      const factor = Math.pow(10, transform.decimals || 0);
+      return numberTransform((value) => Math.round(value * factor) / factor);
+    }
+    case "default":
+      return (value) => (isMissing(value) ? transform.value : value);
+    case "mapValues":
+      return eachItem((value) => {
+        const key = String(value);
+
+        if (Object.prototype.hasOwnProperty.call(transform.values, key)) {
+          return transform.values[key];
+        }
+
+        return "fallback" in transform ? transform.fallback : value;
+      });
+    case "split":
+      return (value) =>
+        typeof value === "string"
+          ? value.split(transform.separator).filter((v) => v !== "")
+          : value;
+    case "join":
+      return (value) =>
+        Array.isArray(value) ? value.join(transform.separator) : value;
+    case "dateFromFormat":
+      return stringTransform((value) => {
+        const date = DateTime.fromFormat(value, transform.format, {
+          zone: transform.timeZone || "UTC",
+        });
+        return date.isValid ? date.toJSDate() : null;
+      });
+    case "coalesce":
+      return (value, data) => {
+        if (!isMissing(value)) {
+          return value;
+        }
+
+        for (const accessor of transform.accessors) {
+          if (has(data, accessor) && !isMissing(get(data, accessor))) {
+            return get(data, accessor);
+          }
+        }
+
+        return value;
+      };
+    case "includes": {
+      const normalize = (v: any) =>
+        transform.caseInsensitive && typeof v === "string"
+          ? v.toLowerCase()
+          : v;
+      const needle = normalize(transform.value);
+
+      return (value) => {
+        if (Array.isArray(value)) {
+          return value.map(normalize).includes(needle);
+        }
+
+        if (typeof value === "string") {
+          return normalize(value).includes(needle);
+        }
+
+        return false;
+      };
+    }
+    default:
+      throw new Error(
+        `Unknown transform type "${(transform as FieldTransform).type}"`
+      );
+  }
+}
+
+/**
+ * Compile a chain of declarative transforms into a single function
+ * @param transforms Transforms applied in order
+ */
+export function compileTransforms(transforms: FieldTransform[]): TransformFn {
+  const chain = transforms.map(compileTransform);
+
+  return (value, data) => chain.reduce((acc, fn) => fn(acc, data), value);
+}
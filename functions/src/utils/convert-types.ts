@@ -0,0 +1,303 @@
+import {
+  DocumentReference,
+  GeoPoint,
+  Timestamp,
+} from "firebase-admin/firestore";
+import { Duration } from "luxon";
+
+/**
+ * Canonical BigQuery INTERVAL format ("Y-M D H:M:S[.F]")
+ */
+const INTERVAL_PATTERN =
+  /^[+-]?\d+-([0-9]|1[01]) [+-]?\d+ [+-]?\d+:[0-5]?\d:[0-5]?\d(\.\d{1,6})?$/;
+
+/**
+ * Standard base64, as accepted by FROM_BASE64
+ */
+const BASE64_PATTERN =
+  /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/**
+ * WKT geometry types ST_GEOGFROMTEXT accepts
+ */
+const WKT_PATTERN =
+  /^(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION)\s*(EMPTY|\(.*\))$/i;
+
+/**
+ * Range in the "[start, end)" format
+ */
+const RANGE_PATTERN = /^\[([^,]+),([^,]+)\)$/;
+
+function isCoordinate(longitude: number, latitude: number) {
+  return (
+    isFinite(longitude) &&
+    isFinite(latitude) &&
+    Math.abs(longitude) <= 180 &&
+    Math.abs(latitude) <= 90
+  );
+}
+
+/**
+ * Check that a WKT string is well formed: balanced parentheses and
+ * "longitude latitude" points within range. Geometries can still be
+ * invalid (e.g. self intersecting polygons), those are NULL in BigQuery.
+ */
+function isWkt(value: string) {
+  if (!WKT_PATTERN.test(value)) {
+    return false;
+  }
+
+  const body = value.replace(
+    /POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION|EMPTY/gi,
+    ""
+  );
+
+  if (!/^[\d\s.,()+\-eE]*$/.test(body)) {
+    return false;
+  }
+
+  let depth = 0;
+
+  for (const char of body) {
+    depth += char === "(" ? 1 : char === ")" ? -1 : 0;
+
+    if (depth < 0) {
+      return false;
+    }
+  }
+
+  if (depth !== 0) {
+    return false;
+  }
+
+  const groups = body.match(/\(([^()]*)\)/g) || [];
+
+  return groups.every((group) =>
+    group
+      .slice(1, -1)
+      .split(",")
+      .every((point) => {
+        const coordinates = point.trim().split(/\s+/);
+
+        return (
+          coordinates.length === 2 &&
+          coordinates.every((c) =>
+            /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(c)
+          ) &&
+          isCoordinate(Number(coordinates[0]), Number(coordinates[1]))
+        );
+      })
+  );
+}
+
+/**
+ * Time of day ("HH:MM[:SS[.FFFFFF]]")
+ */
+const TIME_PATTERN = /^([01]?\d|2[0-3]):[0-5]\d(:[0-5]\d(\.\d{1,6})?)?$/;
+
+/**
+ * Convert a GeoPoint (or an object with latitude and longitude)
+ * to a WKT point, strings have to be well formed WKT
+ * @param value GeoPoint, { latitude, longitude } or WKT string
+ */
+export function toGeography(value: any): string | null {
+  if (typeof value === "string") {
+    return isWkt(value.trim()) ? value.trim() : null;
+  }
+
+  if (
+    value instanceof GeoPoint ||
+    (value &&
+      typeof value.latitude === "number" &&
+      typeof value.longitude === "number")
+  ) {
+    return isCoordinate(value.longitude, value.latitude)
+      ? `POINT(${value.longitude} ${value.latitude})`
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Convert Firestore bytes (a Buffer) to base64,
+ * strings have to be standard base64 already
+ * @param value Buffer, Uint8Array or base64 string
+ */
+export function toBytes(value: any): string | null {
+  if (typeof value === "string") {
+    return BASE64_PATTERN.test(value.trim()) ? value.trim() : null;
+  }
+
+  if (value instanceof Uint8Array) {
+    return Buffer.from(value).toString("base64");
+  }
+
+  return null;
+}
+
+/**
+ * Serialize a value to a JSON string that can be queried in BigQuery:
+ * timestamps become ISO strings, GeoPoints { latitude, longitude },
+ * bytes base64 and document references their path
+ * @param value Any Firestore value
+ */
+export function toJson(value: any): string | null {
+  const json = JSON.stringify(value, function (this: any, key: string, v) {
+    // Buffers are already converted by their toJSON, the holder has the original
+    const original = this[key];
+
+    if (original instanceof Timestamp) {
+      return original.toDate().toISOString();
+    }
+
+    if (original instanceof GeoPoint) {
+      return { latitude: original.latitude, longitude: original.longitude };
+    }
+
+    if (original instanceof Uint8Array) {
+      return Buffer.from(original).toString("base64");
+    }
+
+    if (original instanceof DocumentReference) {
+      return original.path;
+    }
+
+    return v;
+  });
+
+  return json ?? null;
+}
+
+/**
+ * Convert a time of day string, or the UTC time of a timestamp, to TIME
+ * @param value "HH:MM[:SS[.FFFFFF]]" string, Timestamp or Date
+ */
+export function toTime(value: any): string | null {
+  if (typeof value === "string") {
+    return TIME_PATTERN.test(value.trim()) ? value.trim() : null;
+  }
+
+  if (value instanceof Timestamp) {
+    value = value.toDate();
+  }
+
+  if (value instanceof Date && !isNaN(value.getTime())) {
+    return value.toISOString().slice(11, 23);
+  }
+
+  return null;
+}
+
+/**
+ * Convert a duration to the canonical INTERVAL format
+ * @param value Milliseconds, ISO 8601 duration ("P1DT2H"), canonical
+ * INTERVAL string or an object of units ({ days: 1, hours: 2 })
+ */
+export function toInterval(value: any): string | null {
+  let duration: Duration;
+
+  if (typeof value === "number") {
+    duration = Duration.fromMillis(value);
+  } else if (typeof value === "string") {
+    if (INTERVAL_PATTERN.test(value.trim())) {
+      return value.trim();
+    }
+
+    duration = Duration.fromISO(value.trim());
+  } else if (value && typeof value === "object") {
+    try {
+      duration = Duration.fromObject(value);
+    } catch (e) {
+      return null;
+    }
+  } else {
+    return null;
+  }
+
+  if (!duration.isValid) {
+    return null;
+  }
+
+  const {
+    years = 0,
+    quarters = 0,
+    months = 0,
+    weeks = 0,
+    days = 0,
+    hours = 0,
+    minutes = 0,
+    seconds = 0,
+    milliseconds = 0,
+  } = duration.toObject();
+
+  const totalMonths = years * 12 + quarters * 3 + months;
+  const totalDays = weeks * 7 + days;
+  const totalSeconds =
+    hours * 3600 + minutes * 60 + seconds + milliseconds / 1000;
+  const absSeconds = Math.abs(totalSeconds);
+  const time = [
+    Math.floor(absSeconds / 3600),
+    Math.floor((absSeconds % 3600) / 60),
+    parseFloat((absSeconds % 60).toFixed(6)),
+  ].join(":");
+
+  return [
+    `${totalMonths < 0 ? "-" : ""}${Math.floor(Math.abs(totalMonths) / 12)}-${
+      Math.abs(totalMonths) % 12
+    }`,
+    Math.trunc(totalDays),
+    `${totalSeconds < 0 ? "-" : ""}${time}`,
+  ].join(" ");
+}
+
+/**
+ * Convert a range to the "[start, end)" format, missing bounds are unbounded.
+ * Bounds have to be valid values of the element type and start before the end.
+ * @param value { start, end } object or "[start, end)" string
+ * @param formatBound Formats a bound as the range element type
+ */
+export function toRange(
+  value: any,
+  formatBound: (bound: any) => string | null
+): string | null {
+  let start: any;
+  let end: any;
+
+  if (typeof value === "string") {
+    const match = value.trim().match(RANGE_PATTERN);
+
+    if (!match) {
+      return null;
+    }
+
+    const unbounded = (v: string) => /^(UNBOUNDED|NULL)$/i.test(v.trim());
+    start = unbounded(match[1]) ? null : match[1].trim();
+    end = unbounded(match[2]) ? null : match[2].trim();
+  } else if (value && typeof value === "object") {
+    start = value.start;
+    end = value.end;
+  } else {
+    return null;
+  }
+
+  const bound = (v: any) =>
+    v === undefined || v === null ? "UNBOUNDED" : formatBound(v);
+  const startBound = bound(start);
+  const endBound = bound(end);
+
+  if (startBound === null || endBound === null) {
+    return null;
+  }
+
+  // Bounds of the same element type are formatted alike, so they sort as strings
+  if (
+    startBound !== "UNBOUNDED" &&
+    endBound !== "UNBOUNDED" &&
+    startBound >= endBound
+  ) {
+    return null;
+  }
+
+  return `[${startBound}, ${endBound})`;
+}
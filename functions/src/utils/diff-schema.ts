@@ -0,0 +1,105 @@
+import { TableField } from "@google-cloud/bigquery";
+
+/**
+ * BigQuery reports legacy type names for some standard SQL types
+ */
+const TYPE_ALIASES: { [type: string]: string } = {
+  INT64: "INTEGER",
+  FLOAT64: "FLOAT",
+  BOOL: "BOOLEAN",
+  STRUCT: "RECORD",
+  DECIMAL: "NUMERIC",
+  BIGDECIMAL: "BIGNUMERIC",
+};
+
+export interface SchemaDiff {
+  /** Live schema with the columns that can be added merged in */
+  schema: TableField[];
+  /** Names of the added columns (nested columns are dot separated) */
+  added: string[];
+  /** Changes that can't be applied automatically */
+  migrations: string[];
+}
+
+function normalizeType(type?: string) {
+  const upper = (type || "STRING").toUpperCase();
+  return TYPE_ALIASES[upper] || upper;
+}
+
+function normalizeMode(mode?: string) {
+  return (mode || "NULLABLE").toUpperCase();
+}
+
+/**
+ * Compare the configured schema of a table with its live schema
+ * @param path Table (or parent column) the schemas belong to, used in messages
+ * @param live Schema fields currently in BigQuery
+ * @param desired Schema fields derived from the collection configuration
+ */
+export function diffSchema(
+  path: string,
+  live: TableField[],
+  desired: TableField[]
+): SchemaDiff {
+  const diff: SchemaDiff = { schema: [], added: [], migrations: [] };
+  const desiredByName = new Map(desired.map((f) => [f.name, f]));
+  const liveNames = new Set(live.map((f) => f.name));
+
+  for (const current of live) {
+    const field = desiredByName.get(current.name);
+
+    if (!field) {
+      diff.schema.push(current);
+      diff.migrations.push(
+        `${path}.${current.name}: column is no longer configured (drop it with ALTER TABLE ... DROP COLUMN if it's not needed)`
+      );
+      continue;
+    }
+
+    const fromType = normalizeType(current.type);
+    const toType = normalizeType(field.type);
+    const fromMode = normalizeMode(current.mode);
+    const toMode = normalizeMode(field.mode);
+
+    if (fromType !== toType || fromMode !== toMode) {
+      diff.schema.push(current);
+      diff.migrations.push(
+        `${path}.${current.name}: change ${fromType} ${fromMode} → ${toType} ${toMode} (recreate the column or table manually)`
+      );
+      continue;
+    }
+
+    if (toType === "RECORD") {
+      const nested = diffSchema(
+        `${path}.${current.name}`,
+        current.fields || [],
+        field.fields || []
+      );
+
+      diff.schema.push({ ...current, fields: nested.schema });
+      diff.added.push(...nested.added.map((name) => `${current.name}.${name}`));
+      diff.migrations.push(...nested.migrations);
+      continue;
+    }
+
+    diff.schema.push(current);
+  }
+
+  for (const field of desired) {
+    if (liveNames.has(field.name)) {
+      continue;
+    }
+
+    if (normalizeMode(field.mode) === "REQUIRED") {
+      diff.migrations.push(
+        `${path}.${field.name}: REQUIRED column is missing and can't be added to an existing table`
+      );
+      continue;
+    }
+
+    diff.schema.push(field);
+    diff.added.push(field.name!);
+  }
+
+  return diff;
+}
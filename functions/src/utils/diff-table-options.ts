@@ -0,0 +1,65 @@
+import { TableMetadata } from "@google-cloud/bigquery";
+
+export interface TableOptionsDiff {
+  /** Metadata to patch the live table with, empty if nothing changed */
+  metadata: TableMetadata;
+  /** Changes that can't be applied automatically */
+  migrations: string[];
+}
+
+function describePartitioning(
+  partitioning?: TableMetadata["timePartitioning"]
+) {
+  return partitioning
+    ? `${partitioning.type || "DAY"} on ${
+        partitioning.field || "_PARTITIONTIME"
+      }`
+    : "none";
+}
+
+/**
+ * Compare the configured partitioning and clustering of a table with
+ * its live metadata. BigQuery allows changing the partition expiration
+ * and the clustering columns of an existing table, but not its partitioning.
+ * @param tableId Table the metadata belongs to, used in messages
+ * @param live Metadata of the table in BigQuery
+ * @param desired Metadata derived from the collection configuration
+ */
+export function diffTableOptions(
+  tableId: string,
+  live: TableMetadata,
+  desired: TableMetadata
+): TableOptionsDiff {
+  const diff: TableOptionsDiff = { metadata: {}, migrations: [] };
+  const from = live.timePartitioning;
+  const to = desired.timePartitioning;
+
+  if (
+    from?.type !== to?.type ||
+    (from?.field || undefined) !== (to?.field || undefined)
+  ) {
+    diff.migrations.push(
+      `${tableId}: change partitioning ${describePartitioning(
+        from
+      )} → ${describePartitioning(to)} (recreate the table manually)`
+    );
+  } else if (to && (from?.expirationMs || null) !== (to.expirationMs || null)) {
+    diff.metadata.timePartitioning = {
+      ...from,
+      // null removes the expiration
+      expirationMs: to.expirationMs || (null as any),
+    };
+  }
+
+  const fromClustering = (live.clustering?.fields || []).join(",");
+  const toClustering = (desired.clustering?.fields || []).join(",");
+
+  if (fromClustering !== toClustering) {
+    // null removes the clustering
+    diff.metadata.clustering = desired.clustering?.fields?.length
+      ? desired.clustering
+      : (null as any);
+  }
+
+  return diff;
+}
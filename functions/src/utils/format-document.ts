@@ -1,220 +1,503 @@
-import { Timestamp } from "firebase-admin/firestore";
+import { DocumentReference, Timestamp } from "firebase-admin/firestore";
 import { get, has } from "json-pointer";
-import { RuntimeCollectionConfig } from "../types/sync-config.interface";
-import { safeFloat } from "./safe-float";
+import { DocumentMetadata } from "../types/document-metadata.interface";
+import {
+  ParsedFieldDefinition,
+  RuntimeCollectionConfig,
+} from "../types/sync-config.interface";
+import { QualityIssue } from "../types/quality-issue.interface";
+import { SystemColumn } from "../types/system-column.enum";
+import { composeDocumentId } from "./path-params";
+import {
+  toBytes,
+  toGeography,
+  toInterval,
+  toJson,
+  toRange,
+  toTime,
+} from "./convert-types";
+import { toDecimalString, toFloat64, toInt64 } from "./numeric";
+import { transformDocuments } from "./transform-client";
+
+export interface FormattedDocument {
+  /** Row inserted into BigQuery */
+  row: any;
+  /** Values that couldn't be converted and are NULL in the row */
+  issues: QualityIssue[];
+}
 
 /**
- * Format a Firestore document for BigQuery insertion
- * @param data The document data
- * @param documentId The document ID
- * @param config The collection configuration with parsed field definitions
+ * Format the tracked fields out of an object
+ * @param fields Field definitions to format
+ * @param data The object the field accessors are applied to
+ * @param issues Collects the values that couldn't be converted
+ * @param parent Path of the parent column for nested fields
  */
-export async function formatDocument(
+function formatFields(
+  fields: ParsedFieldDefinition[],
   data: any,
-  documentId: string,
-  config: RuntimeCollectionConfig
-): Promise<any> {
-  let document: any = {
-    documentId,
-  };
+  issues?: QualityIssue[],
+  parent?: string
+): any {
+  const formatted: any = {};
+
+  fields.forEach((track) => {
+    formatted[track.key] = formatValue(
+      track,
+      data,
+      issues,
+      parent ? `${parent}.${track.key}` : track.key
+    );
+  });
 
-  if (config.includeParentIdInDocumentId && data.parentId) {
-    document.documentId = `${data.parentId}-${document.documentId}`;
-  }
+  return formatted;
+}
 
-  if (config.transformUrl) {
-    const res = await fetch(config.transformUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ documentId: document.documentId, ...data }),
-    });
+function isMissing(value: any): boolean {
+  return value === undefined || value === null || value === "";
+}
 
-    data = await res.json();
+/**
+ * Short description of a value's type for quality reports
+ */
+function describeType(value: any): string {
+  if (Array.isArray(value)) {
+    return "array";
   }
 
-  const trackedKeys = config.fields;
-
-  trackedKeys.forEach((track) => {
-    let value = track.accessor(data);
-
-    switch (track.type) {
-      case "NUMERIC":
-      case "FLOAT64":
-      case "INT64":
-        if (track.method) {
-          value = track.method(value);
-        }
-
-        if (typeof value === "string") {
-          value = parseFloat(value);
-        }
-
-        if (!value && value !== 0) {
-          value = null;
-        }
-
-        if (typeof value !== "number") {
-          value = null;
-        }
+  if (value && typeof value === "object") {
+    return value.constructor?.name || "object";
+  }
 
-        value = safeFloat(value);
+  return typeof value;
+}
 
-        break;
-      case "BIGNUMERIC":
-      case "BIGDECIMAL":
-        if (track.method) {
-          value = track.method(value);
-        }
+/**
+ * Whether a value can be formatted as a STRUCT
+ */
+function isRecord(value: any): boolean {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    !(value instanceof Timestamp) &&
+    !(value instanceof Date)
+  );
+}
 
-        if (typeof value === "string") {
-          value = parseFloat(value);
-        }
+/**
+ * Coerce array items to the arrayType of the field, using the same rules
+ * as scalar fields. BigQuery arrays can't hold NULL so missing items are dropped.
+ * @param track The ARRAY field definition
+ * @param items The array items
+ * @param issues Collects the items that couldn't be converted
+ * @param path Path of the ARRAY column
+ */
+function formatArrayItems(
+  track: ParsedFieldDefinition,
+  items: any[],
+  issues: QualityIssue[] | undefined,
+  path: string
+): any[] {
+  const itemType = track.arrayType || "STRING";
+
+  return items
+    .filter((item) => item !== null && item !== undefined && item !== "")
+    .map((item, index) => {
+      // Numbers and booleans are kept as text in STRING arrays
+      const value =
+        itemType === "STRING" &&
+        (typeof item === "number" || typeof item === "boolean")
+          ? String(item)
+          : item;
+
+      return formatValue(
+        {
+          key: track.key,
+          type: itemType,
+          scale: track.scale,
+          accessor: () => value,
+        },
+        value,
+        issues,
+        `${path}.${index}`
+      );
+    })
+    .filter((item) => item !== null && item !== undefined);
+}
 
-        if (!value && value !== 0) {
-          value = null;
-        }
+/**
+ * Format a single field value, values that can't be converted
+ * to the field type are formatted as NULL and reported as issues
+ * @param track The field definition
+ * @param data The object the field accessor is applied to
+ * @param issues Collects the values that couldn't be converted
+ * @param path Path of the column the value is formatted for
+ */
+function formatValue(
+  track: ParsedFieldDefinition,
+  data: any,
+  issues?: QualityIssue[],
+  path: string = track.key
+): any {
+  let value = track.accessor(data);
 
-        if (typeof value !== "number") {
-          value = null;
-        }
+  if (track.transform) {
+    value = track.transform(value, data);
+  }
 
-        break;
-      case "ARRAY":
-        if (!Array.isArray(value)) {
-          if (!value && value !== false && value !== 0) {
-            value = [];
-          } else {
-            value = [value];
-          }
+  const raw = value;
+
+  switch (track.type) {
+    case "FLOAT64":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      value = toFloat64(value);
+
+      break;
+    case "INT64":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      value = toInt64(value);
+
+      break;
+    case "NUMERIC":
+    case "BIGNUMERIC":
+    case "BIGDECIMAL":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      /**
+       * Decimals are serialized as strings so no precision is lost,
+       * values are rounded to the scale BigQuery stores
+       */
+      value = toDecimalString(
+        value,
+        track.scale ?? (track.type === "NUMERIC" ? 9 : 38),
+        track.type === "NUMERIC" ? "NUMERIC" : "BIGNUMERIC"
+      );
+
+      break;
+    case "ARRAY":
+      if (!Array.isArray(value)) {
+        if (!value && value !== false && value !== 0) {
+          value = [];
+        } else {
+          value = [value];
         }
+      }
 
-        if (track.formater) {
-          value = [].concat(
-            ...value.map((v: any) => {
-              let val: any = v;
-
-              if (typeof v === "object") {
-                if (track.formater && has(v, track.formater!)) {
-                  val = get(v, track.formater!);
-                }
-              }
-
-              return track.method ? track.method(val) : val;
-            })
-          );
-        }
+      if (track.arrayType === "STRUCT") {
         value = (track.method ? value.map(track.method) : value)
-          .filter(Boolean)
-          .flat();
-
+          .map((v: any, index: number) => {
+            if (isRecord(v)) {
+              return formatFields(
+                track.fields || [],
+                v,
+                issues,
+                `${path}.${index}`
+              );
+            }
+
+            if (!isMissing(v)) {
+              issues?.push({
+                field: `${path}.${index}`,
+                value: v,
+                reason: `Expected an object, got ${describeType(v)}`,
+              });
+            }
+
+            return null;
+          })
+          .filter(isRecord);
         break;
-      case "TIMESTAMP":
-      case "DATETIME":
-        if (track.method) {
-          value = track.method(value);
-        }
+      }
 
-        if (!value) {
-          value = null;
-          break;
-        }
-
-        /**
-         * We assume the value is a miliseconds timestamp
-         */
-        try {
-          if (typeof value === "number" || typeof value === "string") {
-            value = new Date(value).toISOString();
-          } else if (value instanceof Date) {
-            value = value.toISOString();
-          } else if (value instanceof Timestamp) {
-            value = value.toDate().toISOString();
-          } else {
-            value = null;
-          }
-        } catch (e) {
-          value = null;
-        }
+      if (track.formater) {
+        value = [].concat(
+          ...value.map((v: any) => {
+            let val: any = v;
 
+            if (typeof v === "object") {
+              if (track.formater && has(v, track.formater!)) {
+                val = get(v, track.formater!);
+              }
+            }
+
+            return track.method ? track.method(val) : val;
+          })
+        );
+      }
+      value = formatArrayItems(
+        track,
+        (track.method ? value.map(track.method) : value).flat(),
+        issues,
+        path
+      );
+
+      break;
+    case "TIMESTAMP":
+    case "DATETIME":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      if (!value) {
+        value = null;
         break;
-      case "DATE":
-        if (track.method) {
-          value = track.method(value);
-        }
-
-        if (!value) {
-          value = null;
-          break;
-        }
-
-        /**
-         * We assume the value is a miliseconds timestamp
-         */
-        try {
-          if (typeof value === "number" || typeof value === "string") {
-            value = new Date(value).toISOString().split("T")[0];
-          } else if (value instanceof Date) {
-            value = value.toISOString().split("T")[0];
-          } else if (value instanceof Timestamp) {
-            value = value.toDate().toISOString().split("T")[0];
-          } else {
-            value = null;
-          }
-        } catch (e) {
+      }
+
+      /**
+       * We assume the value is a miliseconds timestamp
+       */
+      try {
+        if (typeof value === "number" || typeof value === "string") {
+          value = new Date(value).toISOString();
+        } else if (value instanceof Date) {
+          value = value.toISOString();
+        } else if (value instanceof Timestamp) {
+          value = value.toDate().toISOString();
+        } else {
           value = null;
         }
-
+      } catch (e) {
+        value = null;
+      }
+
+      break;
+    case "DATE":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      if (!value) {
+        value = null;
         break;
-      case "BOOL":
-        if (track.method) {
-          value = track.method(value);
-        }
-
-        value = Boolean(value);
-
-        if (typeof value !== "boolean") {
+      }
+
+      /**
+       * We assume the value is a miliseconds timestamp
+       */
+      try {
+        if (typeof value === "number" || typeof value === "string") {
+          value = new Date(value).toISOString().split("T")[0];
+        } else if (value instanceof Date) {
+          value = value.toISOString().split("T")[0];
+        } else if (value instanceof Timestamp) {
+          value = value.toDate().toISOString().split("T")[0];
+        } else {
           value = null;
         }
+      } catch (e) {
+        value = null;
+      }
+
+      break;
+    case "BOOL":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      // Only booleans and "true" / "false" strings, nothing is coerced
+      if (typeof value === "string" && /^(true|false)$/i.test(value.trim())) {
+        value = value.trim().toLowerCase() === "true";
+      } else if (typeof value !== "boolean") {
+        value = null;
+      }
+
+      break;
+    case "STRING":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      if (value instanceof DocumentReference) {
+        value = value.path;
+      }
+
+      if (typeof value !== "string") {
+        value = null;
+      }
+
+      break;
+    case "JSON":
+      if (track.method) {
+        value = track.method(value);
+      } else if (value !== null && value !== undefined) {
+        // Missing values stay NULL instead of becoming the string "null"
+        value = toJson(value);
+      }
+
+      if (typeof value !== "string") {
+        value = null;
+      }
+
+      break;
+    case "GEOGRAPHY":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      value = toGeography(value);
+
+      break;
+    case "BYTES":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      value = toBytes(value);
+
+      break;
+    case "TIME":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      value = toTime(value);
+
+      break;
+    case "INTERVAL":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      value = toInterval(value);
+
+      break;
+    case "RANGE": {
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      const elementType = track.rangeElementType || "DATE";
+
+      value = toRange(value, (bound) => {
+        const formatted = formatValue(
+          { key: track.key, type: elementType, accessor: () => bound },
+          bound
+        );
+
+        // DATETIME bounds can't have a time zone
+        return typeof formatted === "string" && elementType === "DATETIME"
+          ? formatted.replace(/Z$/, "")
+          : formatted;
+      });
+
+      break;
+    }
+    case "STRUCT":
+      if (track.method) {
+        value = track.method(value);
+      }
+
+      value = isRecord(value)
+        ? formatFields(track.fields || [], value, issues, path)
+        : null;
+
+      break;
+    case "REPEATED":
+      if (
+        typeof value === "string" ||
+        typeof value === "boolean" ||
+        typeof value === "number"
+      ) {
+        value = null;
+      }
+
+      break;
+  }
 
-        break;
-      case "STRING":
-        if (track.method) {
-          value = track.method(value);
-        }
-
-        if (typeof value !== "string") {
-          value = null;
-        }
+  if (value === null && !isMissing(raw)) {
+    issues?.push({
+      field: path,
+      value: raw,
+      reason: `Can't convert ${describeType(raw)} to ${track.type}`,
+    });
+  }
 
-        break;
-      case "JSON":
-        if (track.method) {
-          value = track.method(value);
-        } else {
-          value = JSON.stringify(value);
-        }
+  return value;
+}
 
-        if (typeof value !== "string") {
-          value = null;
-        }
+/**
+ * Format Firestore documents for BigQuery insertion. Documents are
+ * passed through the transform endpoint in batches when one is set.
+ * @param documents The document data with the document metadata
+ * @param config The collection configuration with parsed field definitions
+ */
+export async function formatDocuments(
+  documents: Array<{ data: any; metadata: DocumentMetadata }>,
+  config: RuntimeCollectionConfig
+): Promise<FormattedDocument[]> {
+  const prepared = documents.map(({ data, metadata }) => {
+    const pathParts = metadata.path.split("/");
+
+    return {
+      rawDocument: data,
+      metadata,
+      collectionPath: pathParts.slice(0, -1).join("/"),
+      documentId: composeDocumentId(
+        config,
+        pathParts[pathParts.length - 1],
+        metadata.pathParams
+      ),
+      data: { ...data, ...metadata.pathParams },
+    };
+  });
 
-        break;
-      case "REPEATED":
-        if (
-          typeof value === "string" ||
-          typeof value === "boolean" ||
-          typeof value === "number"
-        ) {
-          value = null;
-        }
+  if (config.transformUrl && prepared.length) {
+    const transformed = await transformDocuments(
+      config.transformUrl,
+      prepared.map(({ documentId, data }) => ({ documentId, ...data }))
+    );
 
-        break;
-    }
+    prepared.forEach((document, index) => {
+      document.data = transformed[index];
+    });
+  }
 
-    document[track.key] = value;
+  return prepared.map((document) => {
+    const issues: QualityIssue[] = [];
+    const row = {
+      documentId: document.documentId,
+      ...formatFields(
+        config.fields.filter((field) => !field.system),
+        document.data,
+        issues
+      ),
+      ...formatFields(
+        config.fields.filter((field) => field.system),
+        {
+          [SystemColumn.DOCUMENT_PATH]: document.metadata.path,
+          [SystemColumn.COLLECTION_PATH]: document.collectionPath,
+          [SystemColumn.CREATE_TIME]: document.metadata.createTime,
+          [SystemColumn.UPDATE_TIME]: document.metadata.updateTime,
+          [SystemColumn.RAW_DOCUMENT]: document.rawDocument,
+        },
+        issues
+      ),
+    };
+
+    return { row, issues };
   });
+}
 
+/**
+ * Format a single Firestore document for BigQuery insertion
+ * @param data The document data
+ * @param config The collection configuration with parsed field definitions
+ * @param metadata Path and timestamps of the document
+ */
+export async function formatDocument(
+  data: any,
+  config: RuntimeCollectionConfig,
+  metadata: DocumentMetadata
+): Promise<FormattedDocument> {
+  const [document] = await formatDocuments([{ data, metadata }], config);
   return document;
 }
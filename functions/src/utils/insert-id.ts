@@ -0,0 +1,10 @@
+import { createHash } from "crypto";
+
+/**
+ * Deterministic BigQuery insertId, so retried streaming
+ * inserts of the same row are deduplicated
+ * @param parts Values identifying the row (e.g. document path and event ID)
+ */
+export function insertId(...parts: string[]): string {
+  return createHash("sha256").update(parts.join("|")).digest("hex");
+}
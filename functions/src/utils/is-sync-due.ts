@@ -0,0 +1,32 @@
+import { parseExpression } from "cron-parser";
+
+/**
+ * Check whether a collection is due for a tracker → main table sync
+ * @param schedule Cron expression of the collection
+ * @param timeZone Time zone the cron expression is evaluated in
+ * @param lastRunDate ISO date of the last sync run (if any)
+ * @param now Reference date, defaults to the current date
+ */
+export function isSyncDue(
+  schedule: string,
+  timeZone: string,
+  lastRunDate?: string,
+  now: Date = new Date()
+): boolean {
+  if (!lastRunDate) {
+    return true;
+  }
+
+  /**
+   * The sync is due when the most recent scheduled
+   * occurrence happened after the last run
+   */
+  const previous = parseExpression(schedule, {
+    currentDate: now,
+    tz: timeZone,
+  })
+    .prev()
+    .toDate();
+
+  return new Date(lastRunDate).getTime() < previous.getTime();
+}
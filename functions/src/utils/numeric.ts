@@ -0,0 +1,178 @@
+/**
+ * Decimal number with an optional exponent (e.g. "-12.5", "1e-7")
+ */
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+/**
+ * Exponents past this are out of range for every BigQuery type
+ */
+const MAX_EXPONENT = 1000;
+
+/**
+ * Largest absolute values of positive and negative values per type
+ */
+const RANGES = {
+  INT64: { positive: "9223372036854775807", negative: "9223372036854775808" },
+  NUMERIC: {
+    positive: "99999999999999999999999999999.999999999",
+    negative: "99999999999999999999999999999.999999999",
+  },
+  BIGNUMERIC: {
+    positive:
+      "578960446186580977117854925043439539266.34992332820282019728792003956564819967",
+    negative:
+      "578960446186580977117854925043439539266.34992332820282019728792003956564819968",
+  },
+};
+
+export type NumericType = keyof typeof RANGES;
+
+/**
+ * Compare two non negative plain decimal strings
+ * @returns A negative number, zero or a positive number like a sort comparator
+ */
+function compareDecimals(a: string, b: string): number {
+  const [aInt, aFrac = ""] = a.split(".");
+  const [bInt, bFrac = ""] = b.split(".");
+
+  if (aInt.length !== bInt.length) {
+    return aInt.length - bInt.length;
+  }
+
+  const length = Math.max(aFrac.length, bFrac.length);
+  const aDigits = aInt + aFrac.padEnd(length, "0");
+  const bDigits = bInt + bFrac.padEnd(length, "0");
+
+  return aDigits < bDigits ? -1 : aDigits > bDigits ? 1 : 0;
+}
+
+/**
+ * Add one to the last digit of a digit string
+ */
+function incrementDigits(digits: string): string {
+  const result = digits.split("");
+
+  for (let i = result.length - 1; i >= 0; i--) {
+    if (result[i] !== "9") {
+      result[i] = String(Number(result[i]) + 1);
+      return result.join("");
+    }
+
+    result[i] = "0";
+  }
+
+  return "1" + result.join("");
+}
+
+/**
+ * Serialize a number or numeric string as a plain decimal string without
+ * a float round-trip, so NUMERIC and BIGNUMERIC values keep every digit
+ * @param value Number or numeric string
+ * @param scale Decimals to round to (half away from zero), unlimited if not set
+ * @param type Values out of the range of the type are rejected (null)
+ */
+export function toDecimalString(
+  value: any,
+  scale?: number,
+  type?: NumericType
+): string | null {
+  if (typeof value === "number") {
+    if (!isFinite(value)) {
+      return null;
+    }
+
+    value = String(value);
+  }
+
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = value.trim().match(DECIMAL_PATTERN);
+
+  if (!match || !(match[2] || match[3])) {
+    return null;
+  }
+
+  const [, sign, integer = "", fraction = "", exponent = "0"] = match;
+  const shift = Number(exponent);
+
+  if (Math.abs(shift) > MAX_EXPONENT) {
+    return null;
+  }
+
+  // Move the decimal point by the exponent
+  const digits = integer + fraction;
+  const point = integer.length + shift;
+  let intPart: string;
+  let fracPart: string;
+
+  if (point <= 0) {
+    intPart = "0";
+    fracPart = "0".repeat(-point) + digits;
+  } else if (point >= digits.length) {
+    intPart = digits + "0".repeat(point - digits.length);
+    fracPart = "";
+  } else {
+    intPart = digits.slice(0, point);
+    fracPart = digits.slice(point);
+  }
+
+  if (scale !== undefined && fracPart.length > scale) {
+    const roundUp = fracPart[scale] >= "5";
+    fracPart = fracPart.slice(0, scale);
+
+    if (roundUp) {
+      const rounded = incrementDigits(intPart + fracPart);
+      intPart = rounded.slice(0, rounded.length - fracPart.length);
+      fracPart = rounded.slice(rounded.length - fracPart.length);
+    }
+  }
+
+  intPart = intPart.replace(/^0+(?=\d)/, "") || "0";
+  fracPart = fracPart.replace(/0+$/, "");
+
+  const result = fracPart ? `${intPart}.${fracPart}` : intPart;
+  const negative = sign === "-" && /[1-9]/.test(result);
+
+  if (
+    type &&
+    compareDecimals(
+      result,
+      negative ? RANGES[type].negative : RANGES[type].positive
+    ) > 0
+  ) {
+    return null;
+  }
+
+  return negative ? `-${result}` : result;
+}
+
+/**
+ * Coerce a value to INT64, values with decimals or out of the INT64 range
+ * are rejected (null). Integers past the safe integer range are kept as strings.
+ * @param value Number or numeric string
+ */
+export function toInt64(value: any): number | string | null {
+  const decimal = toDecimalString(value, undefined, "INT64");
+
+  if (decimal === null || decimal.includes(".")) {
+    return null;
+  }
+
+  const parsed = Number(decimal);
+
+  return Number.isSafeInteger(parsed) ? parsed : decimal;
+}
+
+/**
+ * Coerce a value to FLOAT64
+ * @param value Number or numeric string
+ */
+export function toFloat64(value: any): number | null {
+  if (typeof value === "string" && value.trim() !== "") {
+    value = Number(value);
+  }
+
+  return typeof value === "number" && isFinite(value) ? value : null;
+}
@@ -0,0 +1,79 @@
+import { RuntimeCollectionConfig } from "../types/sync-config.interface";
+
+/**
+ * Names of all {wildcards} in the collection paths, in order of appearance
+ * @param collectionPaths Collection paths of a config
+ */
+export function getPathParamNames(collectionPaths: string[]): string[] {
+  const names: string[] = [];
+
+  for (const path of collectionPaths) {
+    for (const wildcard of path.match(/\{\w+\}/g) || []) {
+      const name = wildcard.slice(1, -1);
+
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Capture the values of every {wildcard} of the first collection path
+ * that matches the document path, or null if none match
+ * @param collectionPaths Collection paths of a config
+ * @param documentPath Full document path (e.g. "tenants/t1/users/u1/sessions/s1")
+ */
+export function extractPathParams(
+  collectionPaths: string[],
+  documentPath: string
+): { [name: string]: string } | null {
+  const parts = documentPath.split("/").slice(0, -1);
+
+  for (const path of collectionPaths) {
+    const segments = path.split("/");
+
+    if (segments.length !== parts.length) {
+      continue;
+    }
+
+    const params: { [name: string]: string } = {};
+    const matches = segments.every((segment, index) => {
+      const wildcard = segment.match(/^\{(\w+)\}$/);
+
+      if (wildcard) {
+        params[wildcard[1]] = parts[index];
+        return true;
+      }
+
+      return segment === parts[index];
+    });
+
+    if (matches) {
+      return params;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Document ID stored in BigQuery, prefixed with the IDs of all
+ * ancestor documents when includeParentIdInDocumentId is enabled
+ * @param config The collection configuration
+ * @param documentId The Firestore document ID
+ * @param params Path params captured with extractPathParams
+ */
+export function composeDocumentId(
+  config: RuntimeCollectionConfig,
+  documentId: string,
+  params: { [name: string]: string }
+): string {
+  if (!config.includeParentIdInDocumentId) {
+    return documentId;
+  }
+
+  return [...Object.values(params), documentId].join("-");
+}
@@ -0,0 +1,61 @@
+import { DocumentReference } from "firebase-admin/firestore";
+import { RuntimeCollectionConfig } from "../types/sync-config.interface";
+import { FormattedDocument } from "./format-document";
+import { insertId } from "./insert-id";
+
+/**
+ * Raw values are truncated so a large value can't fail the insert
+ */
+const MAX_VALUE_LENGTH = 1024;
+
+function serializeValue(value: any): string {
+  let serialized: string;
+
+  try {
+    serialized = JSON.stringify(value, (_, v) =>
+      v instanceof DocumentReference ? v.path : v
+    );
+  } catch (e) {
+    serialized = String(value);
+  }
+
+  return serialized.slice(0, MAX_VALUE_LENGTH);
+}
+
+/**
+ * Rows of the _sync_quality table for the issues of formatted documents
+ * @param config The collection configuration
+ * @param source Whether the documents come from a change event or a backfill
+ * @param documents Formatted documents with their path and version
+ * (event ID or update time), used to deduplicate retried inserts
+ * @param rejected Whether the documents were rejected in strict mode
+ */
+export function qualityRows(
+  config: RuntimeCollectionConfig,
+  source: "change" | "backfill",
+  documents: Array<{
+    path: string;
+    version?: string;
+    formatted: FormattedDocument;
+  }>,
+  rejected: boolean
+) {
+  const timestamp = new Date().toISOString();
+
+  return documents.flatMap(({ path, version, formatted }) =>
+    formatted.issues.map((issue) => ({
+      insertId: insertId(config.id, path, version || timestamp, issue.field),
+      json: {
+        timestamp,
+        configId: config.id,
+        source,
+        documentPath: path,
+        documentId: formatted.row.documentId,
+        field: issue.field,
+        value: serializeValue(issue.value),
+        reason: issue.reason,
+        rejected,
+      },
+    }))
+  );
+}
@@ -0,0 +1,335 @@
+import { BigQuery } from "@google-cloud/bigquery";
+import { SqlQuery } from "../types/sql-query.interface";
+import {
+  ParsedFieldDefinition,
+  RuntimeCollectionConfig,
+} from "../types/sync-config.interface";
+
+/**
+ * Dataset IDs can only contain letters, numbers and underscores
+ */
+const DATASET_ID_PATTERN = /^[A-Za-z0-9_]{1,1024}$/;
+
+/**
+ * Table and column names are quoted, so anything but control
+ * characters, backticks, backslashes and dots is accepted
+ */
+const NAME_PATTERN = /^[^\u0000-\u001f`\\.]{1,1024}$/;
+
+const RANGE_ELEMENT_TYPES = ["DATE", "DATETIME", "TIMESTAMP"];
+
+/**
+ * Validate and quote a table or column name
+ * @param name Table or column name
+ */
+export function identifier(name: string): string {
+  if (typeof name !== "string" || !NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid BigQuery identifier "${name}"`);
+  }
+
+  return `\`${name}\``;
+}
+
+/**
+ * Validate and quote a dataset qualified table reference
+ * @param datasetId Dataset the table is in
+ * @param tableId Table name
+ */
+export function tableRef(datasetId: string, tableId: string): string {
+  if (typeof datasetId !== "string" || !DATASET_ID_PATTERN.test(datasetId)) {
+    throw new Error(`Invalid BigQuery dataset ID "${datasetId}"`);
+  }
+
+  identifier(tableId);
+
+  return `\`${datasetId}.${tableId}\``;
+}
+
+/**
+ * Column read out of a tracker or staging row, converted
+ * from STRING to its native type where needed
+ * @param field Field definition of the column
+ * @param alias Alias of the table in the query
+ */
+function trackerColumn(field: ParsedFieldDefinition, alias: string): string {
+  const column = `${alias}.${identifier(field.key)}`;
+
+  /**
+   * Values are validated when they're formatted, the SAFE variants
+   * turn anything BigQuery still rejects into NULL instead of failing
+   * the merge (which would block the sync of the collection)
+   */
+  switch (field.type) {
+    case "JSON":
+      return `SAFE.PARSE_JSON(${column})`;
+    case "GEOGRAPHY":
+      return `SAFE.ST_GEOGFROMTEXT(${column})`;
+    case "BYTES":
+      return `SAFE.FROM_BASE64(${column})`;
+    case "TIME":
+      return `SAFE_CAST(${column} AS TIME)`;
+    case "INTERVAL":
+      return `SAFE_CAST(${column} AS INTERVAL)`;
+    case "RANGE": {
+      const elementType = field.rangeElementType || "DATE";
+
+      if (!RANGE_ELEMENT_TYPES.includes(elementType)) {
+        throw new Error(`Invalid RANGE element type "${elementType}"`);
+      }
+
+      return `SAFE_CAST(${column} AS RANGE<${elementType}>)`;
+    }
+    default:
+      return column;
+  }
+}
+
+function columnList(config: RuntimeCollectionConfig): string {
+  return config.fields.map((f) => identifier(f.key)).join(",");
+}
+
+/**
+ * Tracker rows in the sync window, deduplicated by event
+ */
+function windowChanges(config: RuntimeCollectionConfig): string {
+  return `
+    SELECT *
+    FROM ${tableRef(config.datasetId, config.trackerTableId)}
+    WHERE timestamp BETWEEN @startTime AND @endTime
+    QUALIFY
+      ROW_NUMBER() OVER (
+        PARTITION BY documentId, IFNULL(eventId, GENERATE_UUID())
+      ) = 1
+  `;
+}
+
+/**
+ * Latest change in the tracker table at or after the start time
+ * @param config The collection configuration
+ * @param startTime ISO start of the sync window
+ */
+export function latestChangeQuery(
+  config: RuntimeCollectionConfig,
+  startTime: string
+): SqlQuery {
+  return {
+    query: `
+      SELECT MAX(timestamp) AS watermark
+      FROM ${tableRef(config.datasetId, config.trackerTableId)}
+      WHERE timestamp >= @startTime
+    `,
+    params: { startTime: BigQuery.timestamp(startTime) },
+  };
+}
+
+/**
+ * Statements of the sync script that maintain the history table out of
+ * the changes in the window. Every change is a version that is valid
+ * until the next version or deletion of the document. Windows overlap,
+ * so versions that are already stored are skipped and a validTo is only
+ * ever moved back, when a change was streamed in late.
+ */
+function historyStatements(config: RuntimeCollectionConfig): string {
+  const historyTable = tableRef(config.datasetId, config.historyTableId);
+  const changes = windowChanges(config);
+
+  return `
+    INSERT INTO ${historyTable}
+      (documentId, validFrom, validTo, isCurrent, eventId, ${columnList(
+        config
+      )})
+    SELECT
+      c.documentId,
+      c.timestamp,
+      NULL,
+      FALSE,
+      c.eventId,
+      ${config.fields.map((f) => trackerColumn(f, "c")).join(",")}
+    FROM (${changes}) c
+    WHERE
+      c.changeType != 'DELETED'
+      AND NOT EXISTS (
+        SELECT 1
+        FROM ${historyTable} h
+        WHERE
+          h.documentId = c.documentId
+          AND h.validFrom = c.timestamp
+          AND IFNULL(h.eventId, '') = IFNULL(c.eventId, '')
+      );
+
+    UPDATE ${historyTable} h
+    SET
+      validTo = IF(
+        h.validTo IS NULL OR v.validTo < h.validTo,
+        v.validTo,
+        h.validTo
+      ),
+      isCurrent = h.validTo IS NULL AND v.validTo IS NULL
+    FROM (
+      SELECT
+        documentId,
+        validFrom,
+        eventId,
+        isVersion,
+        LEAD(validFrom) OVER (
+          PARTITION BY documentId ORDER BY validFrom, eventId
+        ) AS validTo
+      FROM (
+        SELECT documentId, validFrom, eventId, TRUE AS isVersion
+        FROM ${historyTable}
+        WHERE documentId IN (SELECT documentId FROM (${changes}))
+        UNION ALL
+        SELECT documentId, timestamp, eventId, FALSE
+        FROM (${changes})
+        WHERE changeType = 'DELETED'
+      )
+    ) v
+    WHERE
+      v.isVersion
+      AND h.documentId = v.documentId
+      AND h.validFrom = v.validFrom
+      AND IFNULL(h.eventId, '') = IFNULL(v.eventId, '');
+  `;
+}
+
+/**
+ * Merge the changes of the sync window into the main table (and
+ * the history table in history mode).
+ *
+ * Every tracker row holds the full document state, so the latest
+ * change of a document decides its state in the main table: deleted
+ * documents are removed and everything else is upserted as is. Fields
+ * that were removed or set to null in Firestore become NULL.
+ * @param config The collection configuration
+ * @param startTime ISO start of the sync window
+ * @param endTime ISO end of the sync window
+ */
+export function syncMergeQuery(
+  config: RuntimeCollectionConfig,
+  startTime: string,
+  endTime: string
+): SqlQuery {
+  const columns = columnList(config);
+  const update = config.fields
+    .map((f) => `${identifier(f.key)} = ${trackerColumn(f, "n")}`)
+    .join(",");
+
+  const merge = `
+    MERGE ${tableRef(config.datasetId, config.tableId)} i
+    USING (
+      SELECT documentId, changeType, ${columns}
+      FROM ${tableRef(config.datasetId, config.trackerTableId)}
+      WHERE timestamp BETWEEN @startTime AND @endTime
+      QUALIFY
+        ROW_NUMBER() OVER (
+          PARTITION BY documentId ORDER BY timestamp DESC, eventId DESC
+        ) = 1
+    ) n
+    ON i.documentId = n.documentId
+    WHEN MATCHED AND n.changeType = 'DELETED' THEN
+      DELETE
+    WHEN MATCHED THEN
+      UPDATE SET ${update}
+    WHEN NOT MATCHED AND n.changeType != 'DELETED' THEN
+      INSERT (documentId, ${columns})
+      VALUES (n.documentId, ${config.fields
+        .map((f) => trackerColumn(f, "n"))
+        .join(",")});
+  `;
+
+  return {
+    query: config.historyMode
+      ? `
+        BEGIN TRANSACTION;
+        ${merge}
+        ${historyStatements(config)}
+        COMMIT TRANSACTION;
+      `
+      : merge,
+    params: {
+      startTime: BigQuery.timestamp(startTime),
+      endTime: BigQuery.timestamp(endTime),
+    },
+  };
+}
+
+/**
+ * Latest staged version of every document, left out when the tracker
+ * table has a change of the document from the same time or later. Those
+ * documents changed (or were deleted) while the backfill ran and are
+ * merged by the sync instead.
+ */
+function stagingRows(
+  config: RuntimeCollectionConfig,
+  stagingTableId: string
+): string {
+  return `
+    SELECT *
+    FROM ${tableRef(config.datasetId, stagingTableId)} s
+    WHERE NOT EXISTS (
+      SELECT 1
+      FROM ${tableRef(config.datasetId, config.trackerTableId)} t
+      WHERE t.documentId = s.documentId AND t.timestamp >= s.timestamp
+    )
+    QUALIFY
+      ROW_NUMBER() OVER (PARTITION BY documentId ORDER BY timestamp DESC) = 1
+  `;
+}
+
+/**
+ * Insert the staged backfill rows of documents that aren't in the
+ * main table yet, so re-running a backfill never duplicates documents
+ * and documents deleted during the backfill don't come back
+ * @param config The collection configuration
+ * @param stagingTableId Staging table of the backfill
+ */
+export function backfillMergeQuery(
+  config: RuntimeCollectionConfig,
+  stagingTableId: string
+): SqlQuery {
+  const columns = columnList(config);
+  const values = config.fields.map((f) => trackerColumn(f, "n")).join(",");
+
+  return {
+    query: `
+      MERGE ${tableRef(config.datasetId, config.tableId)} i
+      USING (${stagingRows(config, stagingTableId)}) n
+      ON i.documentId = n.documentId
+      WHEN NOT MATCHED THEN
+        INSERT (documentId, ${columns}) VALUES (n.documentId, ${values});
+    `,
+    params: {},
+  };
+}
+
+/**
+ * Backfilled documents without a version yet start their history
+ * at the time the backfill started
+ * @param config The collection configuration
+ * @param stagingTableId Staging table of the backfill
+ * @param startedOn ISO time the backfill started
+ */
+export function backfillHistoryQuery(
+  config: RuntimeCollectionConfig,
+  stagingTableId: string,
+  startedOn: string
+): SqlQuery {
+  const historyTable = tableRef(config.datasetId, config.historyTableId);
+  const columns = columnList(config);
+  const values = config.fields.map((f) => trackerColumn(f, "n")).join(",");
+
+  return {
+    query: `
+      INSERT INTO ${historyTable}
+        (documentId, validFrom, validTo, isCurrent, eventId, ${columns})
+      SELECT n.documentId, @startedOn, NULL, TRUE, NULL, ${values}
+      FROM (${stagingRows(config, stagingTableId)}) n
+      WHERE NOT EXISTS (
+        SELECT 1
+        FROM ${historyTable} h
+        WHERE h.documentId = n.documentId
+      );
+    `,
+    params: { startedOn: BigQuery.timestamp(startedOn) },
+  };
+}
@@ -0,0 +1,148 @@
+import { TableField } from "@google-cloud/bigquery";
+import {
+  ParsedFieldDefinition,
+  RuntimeCollectionConfig,
+} from "../types/sync-config.interface";
+
+/**
+ * Types stored as STRING in the tracker and backfill staging tables,
+ * they're converted to their native type when merged
+ */
+const STRING_TRACKED_TYPES = [
+  "JSON",
+  "GEOGRAPHY",
+  "BYTES",
+  "TIME",
+  "INTERVAL",
+  "RANGE",
+];
+
+/**
+ * Schema of a field as stored in the main table, nested
+ * fields of STRUCTs and repeated records are stored natively
+ */
+function fieldSchema(field: ParsedFieldDefinition): TableField {
+  if (field.type === "STRUCT") {
+    return {
+      name: field.key,
+      type: "RECORD",
+      mode: "NULLABLE",
+      fields: (field.fields || []).map(fieldSchema),
+    };
+  }
+
+  if (field.type === "ARRAY" && field.arrayType === "STRUCT") {
+    return {
+      name: field.key,
+      type: "RECORD",
+      mode: "REPEATED",
+      fields: (field.fields || []).map(fieldSchema),
+    };
+  }
+
+  if (field.type === "ARRAY") {
+    return {
+      name: field.key,
+      type: field.arrayType || "STRING",
+      mode: "REPEATED",
+    };
+  }
+
+  if (field.type === "RANGE") {
+    return {
+      name: field.key,
+      type: "RANGE",
+      mode: "NULLABLE",
+      rangeElementType: { type: field.rangeElementType || "DATE" },
+    };
+  }
+
+  return {
+    name: field.key,
+    type: field.type,
+    mode: "NULLABLE",
+  };
+}
+
+/**
+ * Schema of a field as streamed into the tracker and staging tables
+ */
+function trackedFieldSchema(field: ParsedFieldDefinition): TableField {
+  return STRING_TRACKED_TYPES.includes(field.type)
+    ? { name: field.key, type: "STRING", mode: "NULLABLE" }
+    : fieldSchema(field);
+}
+
+/**
+ * Schema of the tracker table (JSON and other converted types stored as STRING)
+ */
+export function trackerTableSchema(
+  config: RuntimeCollectionConfig
+): TableField[] {
+  return [
+    { name: "changeType", type: "STRING", mode: "REQUIRED" },
+    { name: "timestamp", type: "TIMESTAMP", mode: "REQUIRED" },
+    { name: "documentId", type: "STRING", mode: "REQUIRED" },
+    { name: "eventId", type: "STRING", mode: "NULLABLE" },
+    ...config.fields.map(trackedFieldSchema),
+  ];
+}
+
+/**
+ * Schema of backfill staging tables, merged into the main table
+ * with the same conversions as the tracker table. The timestamp
+ * is the update time of the staged document version.
+ */
+export function stagingTableSchema(
+  config: RuntimeCollectionConfig
+): TableField[] {
+  return [
+    { name: "documentId", type: "STRING", mode: "REQUIRED" },
+    { name: "timestamp", type: "TIMESTAMP", mode: "REQUIRED" },
+    ...config.fields.map(trackedFieldSchema),
+  ];
+}
+
+/**
+ * Schema of the main table (uses native JSON type)
+ */
+export function mainTableSchema(config: RuntimeCollectionConfig): TableField[] {
+  return [
+    { name: "documentId", type: "STRING", mode: "REQUIRED" },
+    ...config.fields.map(fieldSchema),
+  ];
+}
+
+/**
+ * Schema of the history table, every version of a document is
+ * valid from its change until the next change or deletion
+ */
+export function historyTableSchema(
+  config: RuntimeCollectionConfig
+): TableField[] {
+  return [
+    { name: "documentId", type: "STRING", mode: "REQUIRED" },
+    { name: "validFrom", type: "TIMESTAMP", mode: "REQUIRED" },
+    { name: "validTo", type: "TIMESTAMP", mode: "NULLABLE" },
+    { name: "isCurrent", type: "BOOL", mode: "REQUIRED" },
+    { name: "eventId", type: "STRING", mode: "NULLABLE" },
+    ...config.fields.map(fieldSchema),
+  ];
+}
+
+/**
+ * Schema of the _sync_quality table, shared by the collections of a dataset
+ */
+export function qualityTableSchema(): TableField[] {
+  return [
+    { name: "timestamp", type: "TIMESTAMP", mode: "REQUIRED" },
+    { name: "configId", type: "STRING", mode: "REQUIRED" },
+    { name: "source", type: "STRING", mode: "REQUIRED" },
+    { name: "documentPath", type: "STRING", mode: "REQUIRED" },
+    { name: "documentId", type: "STRING", mode: "NULLABLE" },
+    { name: "field", type: "STRING", mode: "REQUIRED" },
+    { name: "value", type: "STRING", mode: "NULLABLE" },
+    { name: "reason", type: "STRING", mode: "NULLABLE" },
+    { name: "rejected", type: "BOOL", mode: "REQUIRED" },
+  ];
+}
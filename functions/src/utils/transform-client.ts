@@ -0,0 +1,135 @@
+import { GoogleAuth, IdTokenClient } from "google-auth-library";
+import { logger } from "firebase-functions/v1";
+
+/**
+ * Documents sent to the transform endpoint in a single request
+ */
+const TRANSFORM_BATCH_SIZE = 100;
+/**
+ * Every attempt and backoff of a batch (about 91s) has to fit in the
+ * 300s timeout of the change trigger, so failures are dead-lettered
+ */
+const TRANSFORM_TIMEOUT_MS = 1000 * 30;
+const TRANSFORM_MAX_ATTEMPTS = 3;
+const TRANSFORM_BACKOFF_MS = 500;
+
+const auth = new GoogleAuth();
+const idTokenClients = new Map<string, Promise<IdTokenClient>>();
+
+/**
+ * ID token client for the endpoint. The token audience is the URL without
+ * its query string, 1st gen Cloud Functions require the full function URL.
+ * Clients that fail to be created are evicted, so the next call retries.
+ */
+function getIdTokenClient(url: string): Promise<IdTokenClient> {
+  const { origin, pathname } = new URL(url);
+  const audience = `${origin}${pathname}`;
+
+  if (!idTokenClients.has(audience)) {
+    const client = auth.getIdTokenClient(audience);
+
+    idTokenClients.set(audience, client);
+    client.catch(() => {
+      if (idTokenClients.get(audience) === client) {
+        idTokenClients.delete(audience);
+      }
+    });
+  }
+
+  return idTokenClients.get(audience)!;
+}
+
+function isRecord(value: any) {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Send a single batch, retrying timeouts, network errors,
+ * 429 and 5xx responses with exponential backoff
+ */
+async function sendBatch(url: string, documents: any[]): Promise<any[]> {
+  for (let attempt = 1; ; attempt++) {
+    let retryable = true;
+
+    try {
+      const client = await getIdTokenClient(url);
+      const headers = await client.getRequestHeaders(url);
+      const res = await fetch(url, {
+        method: "POST",
+        headers: {
+          ...headers,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ documents }),
+        signal: AbortSignal.timeout(TRANSFORM_TIMEOUT_MS),
+      });
+
+      if (!res.ok) {
+        retryable = res.status === 429 || res.status >= 500;
+        throw new Error(
+          `responded with ${res.status} ${res.statusText}: ${(
+            await res.text()
+          ).slice(0, 500)}`
+        );
+      }
+
+      let body: any;
+
+      try {
+        body = await res.json();
+      } catch (e) {
+        retryable = false;
+        throw new Error("responded with invalid JSON");
+      }
+
+      if (
+        !isRecord(body) ||
+        !Array.isArray(body.documents) ||
+        body.documents.length !== documents.length ||
+        !body.documents.every(isRecord)
+      ) {
+        retryable = false;
+        throw new Error(
+          `expected { documents: [...] } with ${documents.length} objects in the response`
+        );
+      }
+
+      return body.documents;
+    } catch (e: any) {
+      const message = `Transform endpoint ${url} ${e.message}`;
+
+      if (!retryable || attempt >= TRANSFORM_MAX_ATTEMPTS) {
+        throw new Error(message);
+      }
+
+      logger.warn(`${message}, retrying (attempt ${attempt})`);
+
+      await new Promise((resolve) =>
+        setTimeout(resolve, TRANSFORM_BACKOFF_MS * Math.pow(2, attempt - 1))
+      );
+    }
+  }
+}
+
+/**
+ * Transform documents with a custom endpoint. Documents are sent in
+ * batches as { documents: [...] } with a Google-signed ID token and the
+ * endpoint responds with the transformed documents in the same order.
+ * Throws if any batch fails, so no partially transformed data is written.
+ * @param url Transform endpoint URL
+ * @param documents Documents to transform
+ */
+export async function transformDocuments(
+  url: string,
+  documents: any[]
+): Promise<any[]> {
+  const transformed: any[] = [];
+
+  for (let i = 0; i < documents.length; i += TRANSFORM_BATCH_SIZE) {
+    transformed.push(
+      ...(await sendBatch(url, documents.slice(i, i + TRANSFORM_BATCH_SIZE)))
+    );
+  }
+
+  return transformed;
+}
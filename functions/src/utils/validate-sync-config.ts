@@ -0,0 +1,414 @@
+import Ajv, { ErrorObject } from "ajv";
+import { parseExpression } from "cron-parser";
+import { IANAZone } from "luxon";
+import * as syncConfigSchema from "../sync-config.schema.json";
+
+/**
+ * Columns every table of a collection has, besides the configured fields
+ */
+const RESERVED_COLUMNS = ["documentId", "changeType", "timestamp", "eventId"];
+
+/**
+ * Columns of the history table, reserved when historyMode is enabled
+ */
+const HISTORY_COLUMNS = ["validFrom", "validTo", "isCurrent"];
+
+/**
+ * Table shared by all collections of a dataset
+ */
+const QUALITY_TABLE_ID = "_sync_quality";
+
+/**
+ * Types a main table can be partitioned on
+ */
+const PARTITION_TYPES = ["TIMESTAMP", "DATE", "DATETIME"];
+
+/**
+ * System columns a main table can be partitioned on
+ */
+const PARTITION_SYSTEM_COLUMNS = ["createTime", "updateTime"];
+
+/**
+ * Largest scale of NUMERIC columns (BIGNUMERIC allows 38)
+ */
+const NUMERIC_MAX_SCALE = 9;
+
+let validateSchema: ReturnType<Ajv["compile"]> | undefined;
+
+/**
+ * Readable message of a schema error, with the allowed values
+ * or the unexpected property when ajv has them
+ */
+function schemaError(error: ErrorObject): string {
+  const path = error.instancePath || "/";
+
+  if (error.keyword === "enum") {
+    return `${path}: must be one of ${error.params.allowedValues
+      .map((value: any) => JSON.stringify(value))
+      .join(", ")}`;
+  }
+
+  if (error.keyword === "additionalProperties") {
+    return `${path}: unknown property "${error.params.additionalProperty}"`;
+  }
+
+  return `${path}: ${error.message}`;
+}
+
+/**
+ * Base type of a configured field type (e.g. "STRING" for "STRING_ID")
+ */
+function baseType(type: string) {
+  return type.split("_")[0];
+}
+
+/**
+ * Check field names against the reserved columns and each other,
+ * nested fields of records are checked recursively
+ */
+function validateFields(
+  path: string,
+  fields: any[],
+  reserved: string[],
+  errors: string[]
+) {
+  const names = new Map<string, number>();
+
+  fields.forEach((field, index) => {
+    const fieldPath = `${path}/${index}`;
+    const name = field.name.toLowerCase();
+    const type = baseType(field.type);
+    const numericType = type === "ARRAY" ? field.arrayType : type;
+
+    if (reserved.some((column) => column.toLowerCase() === name)) {
+      errors.push(
+        `${fieldPath}/name: "${field.name}" is a reserved column, rename the field`
+      );
+    }
+
+    if (names.has(name)) {
+      errors.push(
+        `${fieldPath}/name: "${
+          field.name
+        }" is already used by ${path}/${names.get(
+          name
+        )} (column names are case insensitive)`
+      );
+    } else {
+      names.set(name, index);
+    }
+
+    if (numericType === "NUMERIC" && field.scale > NUMERIC_MAX_SCALE) {
+      errors.push(
+        `${fieldPath}/scale: NUMERIC values have at most ${NUMERIC_MAX_SCALE} decimals, use BIGNUMERIC for a scale of ${field.scale}`
+      );
+    }
+
+    const isRecord =
+      type === "STRUCT" || (type === "ARRAY" && field.arrayType === "STRUCT");
+
+    if (isRecord && !field.fields) {
+      errors.push(
+        `${fieldPath}: STRUCT fields and ARRAY fields with arrayType STRUCT need nested fields`
+      );
+    }
+
+    if (!isRecord && field.fields) {
+      errors.push(
+        `${fieldPath}/fields: only STRUCT fields and ARRAY fields with arrayType STRUCT can have nested fields`
+      );
+    }
+
+    if (field.fields) {
+      validateFields(`${fieldPath}/fields`, field.fields, [], errors);
+    }
+  });
+}
+
+/**
+ * Whether two collection paths can match the same collection
+ */
+function pathsOverlap(a: string[], b: string[]) {
+  return (
+    a.length === b.length &&
+    a.every(
+      (segment, index) =>
+        segment === b[index] ||
+        segment.startsWith("{") ||
+        b[index].startsWith("{")
+    )
+  );
+}
+
+/**
+ * Check the wildcards and overlaps of the collection paths of a collection
+ * @returns Names of the wildcards, which become STRING columns
+ */
+function validateCollectionPaths(
+  path: string,
+  collectionPaths: string[],
+  errors: string[]
+): string[] {
+  const params: string[] = [];
+  const segmented = collectionPaths.map((collectionPath) =>
+    collectionPath.split("/")
+  );
+
+  segmented.forEach((segments, index) => {
+    const names: string[] = [];
+
+    segments.forEach((segment, position) => {
+      const wildcard = segment.match(/^\{(\w+)\}$/);
+
+      if (!wildcard) {
+        if (/[{}]/.test(segment)) {
+          errors.push(
+            `${path}/${index}: "${segment}" isn't a valid wildcard, wildcards are whole segments like {userId}`
+          );
+        }
+        return;
+      }
+
+      if (position % 2 === 1) {
+        names.push(wildcard[1]);
+        return;
+      }
+
+      errors.push(
+        `${path}/${index}: wildcard {${wildcard[1]}} can only replace document IDs, not collection names`
+      );
+    });
+
+    names.forEach((name, position) => {
+      if (names.indexOf(name) !== position) {
+        errors.push(`${path}/${index}: wildcard {${name}} is used twice`);
+      }
+
+      if (!params.includes(name)) {
+        params.push(name);
+      }
+    });
+
+    for (let other = 0; other < index; other++) {
+      if (pathsOverlap(segmented[other], segments)) {
+        errors.push(
+          `${path}/${index}: overlaps with ${path}/${other} ("${collectionPaths[other]}"), documents would be synced twice`
+        );
+      }
+    }
+  });
+
+  return params;
+}
+
+/**
+ * Check that the cron schedule parses in the time zone
+ * @param schedulePath JSON pointer of the schedule, used in messages
+ * @param timeZonePath JSON pointer of the time zone, used in messages
+ */
+function validateSchedule(
+  schedulePath: string,
+  schedule: string | undefined,
+  timeZonePath: string,
+  timeZone: string | undefined,
+  errors: string[]
+) {
+  if (timeZone && !IANAZone.isValidZone(timeZone)) {
+    errors.push(`${timeZonePath}: "${timeZone}" isn't a valid IANA time zone`);
+    return;
+  }
+
+  if (!schedule) {
+    return;
+  }
+
+  try {
+    parseExpression(schedule, { tz: timeZone || "UTC" });
+  } catch (e: any) {
+    errors.push(
+      `${schedulePath}: invalid cron schedule "${schedule}" (${e.message})`
+    );
+  }
+}
+
+/**
+ * Checks of a single collection that the schema can't express
+ */
+function validateCollection(path: string, collection: any, errors: string[]) {
+  const params = validateCollectionPaths(
+    `${path}/collectionPaths`,
+    collection.collectionPaths,
+    errors
+  );
+
+  const systemColumns: string[] = collection.systemColumns || [];
+  const reserved = [
+    ...RESERVED_COLUMNS,
+    ...(collection.historyMode ? HISTORY_COLUMNS : []),
+  ];
+
+  validateFields(
+    `${path}/fields`,
+    collection.fields,
+    [...reserved, ...systemColumns],
+    errors
+  );
+
+  for (const param of params) {
+    const clash = [...reserved, ...systemColumns].some(
+      (column) => column.toLowerCase() === param.toLowerCase()
+    );
+
+    if (clash) {
+      errors.push(
+        `${path}/collectionPaths: wildcard {${param}} collides with the reserved "${param}" column, rename the wildcard`
+      );
+    }
+  }
+
+  validateSchedule(
+    `${path}/schedule`,
+    collection.schedule,
+    `${path}/timeZone`,
+    collection.timeZone,
+    errors
+  );
+
+  const { partitionField, clustering } = collection.mainTable || {};
+  const columns = [
+    "documentId",
+    ...systemColumns,
+    ...params,
+    ...collection.fields.map((field: any) => field.name),
+  ];
+
+  if (partitionField) {
+    const field = collection.fields.find((f: any) => f.name === partitionField);
+    const partitionable = field
+      ? PARTITION_TYPES.includes(baseType(field.type))
+      : PARTITION_SYSTEM_COLUMNS.includes(partitionField) &&
+        systemColumns.includes(partitionField);
+
+    if (!partitionable) {
+      errors.push(
+        `${path}/mainTable/partitionField: "${partitionField}" must be a top level TIMESTAMP, DATE or DATETIME field or the createTime/updateTime system column`
+      );
+    }
+  }
+
+  for (const column of clustering || []) {
+    if (!columns.includes(column)) {
+      errors.push(
+        `${path}/mainTable/clustering: "${column}" isn't a column of the table`
+      );
+    }
+  }
+}
+
+/**
+ * Validate a sync configuration against the JSON Schema and check
+ * what the schema can't express (duplicate IDs and tables, reserved
+ * columns, overlapping paths, schedules and partitioning)
+ * @param config Parsed value of SYNC_CONFIG
+ * @param databaseId Database with the change trigger, collections of other
+ * databases are rejected (not checked when left out)
+ * @returns Error messages, prefixed with the JSON pointer of the invalid value
+ */
+export function validateSyncConfig(
+  config: unknown,
+  databaseId?: string
+): string[] {
+  if (!validateSchema) {
+    validateSchema = new Ajv({ allErrors: true }).compile(syncConfigSchema);
+  }
+
+  if (!validateSchema(config)) {
+    // "if" errors only repeat the errors of the branch that failed
+    const schemaErrors = (validateSchema.errors || [])
+      .filter((error) => error.keyword !== "if")
+      .map(schemaError);
+
+    return Array.from(new Set(schemaErrors));
+  }
+
+  const errors: string[] = [];
+  const syncConfig = config as any;
+  const ids = new Map<string, number>();
+  const tables = new Map<string, string>();
+  const locations = new Map<string, string>();
+
+  validateSchedule(
+    "/defaultSchedule",
+    syncConfig.defaultSchedule,
+    "/defaultTimeZone",
+    syncConfig.defaultTimeZone,
+    errors
+  );
+
+  syncConfig.collections.forEach((collection: any, index: number) => {
+    const path = `/collections/${index}`;
+    const datasetId = collection.datasetId;
+
+    if (ids.has(collection.id)) {
+      errors.push(
+        `${path}/id: "${
+          collection.id
+        }" is already used by /collections/${ids.get(collection.id)}`
+      );
+    } else {
+      ids.set(collection.id, index);
+    }
+
+    if (
+      databaseId &&
+      collection.databaseId &&
+      collection.databaseId !== databaseId
+    ) {
+      errors.push(
+        `${path}/databaseId: this instance only syncs database "${databaseId}" (DATABASE_ID), install another instance for "${collection.databaseId}"`
+      );
+    }
+
+    const location = collection.datasetLocation.toLowerCase();
+
+    if (locations.has(datasetId) && locations.get(datasetId) !== location) {
+      errors.push(
+        `${path}/datasetLocation: dataset "${datasetId}" is already configured in "${locations.get(
+          datasetId
+        )}"`
+      );
+    } else {
+      locations.set(datasetId, location);
+    }
+
+    const tableIds = [
+      collection.tableId,
+      `${collection.tableId}-tracker`,
+      ...(collection.historyMode ? [`${collection.tableId}-history`] : []),
+    ];
+
+    for (const tableId of tableIds) {
+      const table = `${datasetId}.${tableId}`;
+
+      if (tableId === QUALITY_TABLE_ID) {
+        errors.push(`${path}/tableId: "${QUALITY_TABLE_ID}" is reserved`);
+        break;
+      }
+
+      if (tables.has(table)) {
+        errors.push(
+          `${path}/tableId: table ${table} is already used by collection "${tables.get(
+            table
+          )}"`
+        );
+        break;
+      }
+
+      tables.set(table, collection.id);
+    }
+
+    validateCollection(path, collection, errors);
+  });
+
+  return errors;
+}
@@ -0,0 +1,122 @@
+import { expect } from "chai";
+import { GeoPoint, getFirestore, Timestamp } from "firebase-admin/firestore";
+import {
+  toBytes,
+  toGeography,
+  toInterval,
+  toJson,
+  toRange,
+} from "../src/utils/convert-types";
+
+describe("convert-types", () => {
+  describe("toGeography", () => {
+    it("converts GeoPoints to WKT points", () => {
+      expect(toGeography(new GeoPoint(45.8, 15.9))).to.equal(
+        "POINT(15.9 45.8)"
+      );
+    });
+
+    it("accepts well formed WKT", () => {
+      for (const wkt of [
+        "POINT(1 2)",
+        "POINT EMPTY",
+        "LINESTRING (0 0, 1 1, -1.5 2e1)",
+        "POLYGON((0 0, 1 0, 1 1, 0 0))",
+        "MULTIPOLYGON(((0 0, 1 0, 1 1, 0 0)), ((2 2, 3 2, 3 3, 2 2)))",
+        "GEOMETRYCOLLECTION(POINT(1 2), LINESTRING(0 0, 1 1))",
+      ]) {
+        expect(toGeography(wkt), wkt).to.equal(wkt);
+      }
+    });
+
+    it("rejects malformed WKT and coordinates out of range", () => {
+      for (const wkt of [
+        "somewhere",
+        "POINT(1)",
+        "POINT(1 2",
+        "POINT(a b)",
+        "POINT(181 0)",
+        "POINT(0 91)",
+        "CIRCLE(0 0)",
+      ]) {
+        expect(toGeography(wkt), wkt).to.equal(null);
+      }
+    });
+  });
+
+  describe("toBytes", () => {
+    it("converts buffers to base64", () => {
+      expect(toBytes(Buffer.from("bytes"))).to.equal("Ynl0ZXM=");
+    });
+
+    it("accepts standard base64 only", () => {
+      expect(toBytes("Ynl0ZXM=")).to.equal("Ynl0ZXM=");
+      expect(toBytes("Ynl0ZXM")).to.equal(null);
+      expect(toBytes("not base64!")).to.equal(null);
+      expect(toBytes("Ynl0_-M=")).to.equal(null);
+    });
+  });
+
+  describe("toInterval", () => {
+    it("converts durations to the canonical format", () => {
+      expect(toInterval({ days: 1, hours: 2 })).to.equal("0-0 1 2:0:0");
+      expect(toInterval("P1Y2M")).to.equal("1-2 0 0:0:0");
+    });
+
+    it("rejects canonical strings with out of range parts", () => {
+      expect(toInterval("1-2 3 4:5:6")).to.equal("1-2 3 4:5:6");
+      expect(toInterval("1-12 3 4:5:6")).to.equal(null);
+      expect(toInterval("1-2 3 4:60:6")).to.equal(null);
+    });
+  });
+
+  describe("toRange", () => {
+    const formatDate = (bound: any) =>
+      /^\d{4}-\d{2}-\d{2}$/.test(bound) ? bound : null;
+
+    it("formats objects and strings with valid bounds", () => {
+      expect(toRange({ start: "2024-01-01" }, formatDate)).to.equal(
+        "[2024-01-01, UNBOUNDED)"
+      );
+      expect(toRange("[2024-01-01,2024-02-01)", formatDate)).to.equal(
+        "[2024-01-01, 2024-02-01)"
+      );
+      expect(toRange("[NULL, 2024-02-01)", formatDate)).to.equal(
+        "[UNBOUNDED, 2024-02-01)"
+      );
+    });
+
+    it("rejects invalid bounds and empty ranges", () => {
+      expect(toRange("[foo, bar)", formatDate)).to.equal(null);
+      expect(toRange("[2024-01-01, 2024-02-01]", formatDate)).to.equal(null);
+      expect(toRange("[2024-02-01, 2024-01-01)", formatDate)).to.equal(null);
+      expect(
+        toRange({ start: "2024-01-01", end: "2024-01-01" }, formatDate)
+      ).to.equal(null);
+    });
+  });
+
+  describe("toJson", () => {
+    it("writes Firestore types in queryable form", () => {
+      const json = toJson({
+        createdOn: Timestamp.fromMillis(Date.UTC(2024, 0, 1)),
+        location: new GeoPoint(45.8, 15.9),
+        file: Buffer.from("hi"),
+        owner: getFirestore().doc("users/u1"),
+        items: [{ at: Timestamp.fromMillis(0) }],
+      });
+
+      expect(JSON.parse(json!)).to.deep.equal({
+        createdOn: "2024-01-01T00:00:00.000Z",
+        location: { latitude: 45.8, longitude: 15.9 },
+        file: "aGk=",
+        owner: "users/u1",
+        items: [{ at: "1970-01-01T00:00:00.000Z" }],
+      });
+    });
+
+    it("returns null for values without JSON", () => {
+      expect(toJson(undefined)).to.equal(null);
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  ParsedFieldDefinition,
+  RuntimeCollectionConfig,
+} from "../src/types/sync-config.interface";
+
+/**
+ * Parsed field reading the value of the same name
+ */
+export function field(
+  key: string,
+  type: string,
+  options: Partial<ParsedFieldDefinition> = {}
+): ParsedFieldDefinition {
+  return { key, type, accessor: (value: any) => value[key], ...options };
+}
+
+/**
+ * Runtime config of an "orders" collection with the given fields
+ */
+export function runtimeConfig(
+  overrides: Partial<RuntimeCollectionConfig> = {}
+): RuntimeCollectionConfig {
+  return {
+    id: "orders",
+    databaseId: "(default)",
+    collectionPaths: ["orders"],
+    datasetId: "firestore_sync",
+    tableId: "orders",
+    trackerTableId: "orders-tracker",
+    historyMode: false,
+    historyTableId: "orders-history",
+    strict: false,
+    datasetLocation: "eu",
+    backfill: true,
+    schedule: "0 0 * * *",
+    timeZone: "UTC",
+    latenessMarginMinutes: 10,
+    fields: [],
+    matchesFilter: () => true,
+    pathPattern: /^orders$/,
+    ...overrides,
+  };
+}
@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { getFirestore, Timestamp } from "firebase-admin/firestore";
+import { ParsedFieldDefinition } from "../src/types/sync-config.interface";
+import { formatDocument } from "../src/utils/format-document";
+import { field, runtimeConfig } from "./fixtures";
+
+/**
+ * Format a single value of a field
+ */
+async function format(track: ParsedFieldDefinition, value: any) {
+  const { row, issues } = await formatDocument(
+    { [track.key]: value },
+    runtimeConfig({ fields: [track] }),
+    { path: "orders/o1", pathParams: {} }
+  );
+
+  return { value: row[track.key], issues };
+}
+
+describe("format-document", () => {
+  describe("BOOL", () => {
+    const bool = field("paid", "BOOL");
+
+    it("keeps booleans and parses boolean strings", async () => {
+      expect((await format(bool, true)).value).to.equal(true);
+      expect((await format(bool, false)).value).to.equal(false);
+      expect((await format(bool, "false")).value).to.equal(false);
+      expect((await format(bool, " TRUE ")).value).to.equal(true);
+    });
+
+    it("reports everything else instead of coercing it", async () => {
+      for (const value of ["no", "yes", 1, 0, {}, [true]]) {
+        const formatted = await format(bool, value);
+
+        expect(formatted.value, JSON.stringify(value)).to.equal(null);
+        expect(formatted.issues).to.have.length(1);
+      }
+    });
+
+    it("writes missing values as NULL without issues", async () => {
+      const formatted = await format(bool, null);
+
+      expect(formatted.value).to.equal(null);
+      expect(formatted.issues).to.deep.equal([]);
+    });
+  });
+
+  describe("NUMERIC", () => {
+    const numeric = field("total", "NUMERIC");
+    const bignumeric = field("total", "BIGNUMERIC");
+
+    it("keeps every digit in range", async () => {
+      expect((await format(numeric, "1e28")).value).to.equal(
+        "1" + "0".repeat(28)
+      );
+      expect((await format(numeric, "-12.5")).value).to.equal("-12.5");
+      expect((await format(bignumeric, "1e38")).value).to.equal(
+        "1" + "0".repeat(38)
+      );
+    });
+
+    it("reports values past the range of the type", async () => {
+      for (const value of [
+        "1e29",
+        "-1e29",
+        "99999999999999999999999999999.9999999999",
+      ]) {
+        const formatted = await format(numeric, value);
+
+        expect(formatted.value, value).to.equal(null);
+        expect(formatted.issues).to.have.length(1);
+      }
+
+      expect((await format(bignumeric, "1e39")).value).to.equal(null);
+      expect((await format(bignumeric, "1e400")).value).to.equal(null);
+    });
+  });
+
+  describe("INT64", () => {
+    const int = field("quantity", "INT64");
+
+    it("keeps integers up to the INT64 bounds", async () => {
+      expect((await format(int, "9223372036854775807")).value).to.equal(
+        "9223372036854775807"
+      );
+      expect((await format(int, "-9223372036854775808")).value).to.equal(
+        "-9223372036854775808"
+      );
+      expect((await format(int, 42)).value).to.equal(42);
+    });
+
+    it("reports integers past the INT64 bounds", async () => {
+      for (const value of [
+        "9223372036854775808",
+        "-9223372036854775809",
+        "1e19",
+      ]) {
+        const formatted = await format(int, value);
+
+        expect(formatted.value, value).to.equal(null);
+        expect(formatted.issues).to.have.length(1);
+      }
+    });
+  });
+
+  describe("JSON", () => {
+    const json = field("meta", "JSON");
+
+    it("serializes values", async () => {
+      expect((await format(json, { a: [1, null] })).value).to.equal(
+        '{"a":[1,null]}'
+      );
+      expect((await format(json, "text")).value).to.equal('"text"');
+    });
+
+    it("writes missing values as NULL without issues", async () => {
+      for (const value of [null, undefined]) {
+        const formatted = await format(json, value);
+
+        expect(formatted.value).to.equal(null);
+        expect(formatted.issues).to.deep.equal([]);
+      }
+    });
+  });
+
+  describe("ARRAY", () => {
+    const tags = field("tags", "ARRAY");
+
+    it("keeps strings and writes numbers, booleans and references as text", async () => {
+      const ref = getFirestore().doc("tags/t1");
+
+      expect((await format(tags, ["a", 1, true, ref])).value).to.deep.equal([
+        "a",
+        "1",
+        "true",
+        "tags/t1",
+      ]);
+    });
+
+    it("reports items that aren't strings in STRING arrays", async () => {
+      const formatted = await format(tags, ["a", { x: 1 }, Timestamp.now()]);
+
+      expect(formatted.value).to.deep.equal(["a"]);
+      expect(formatted.issues.map((issue) => issue.field)).to.deep.equal([
+        "tags.1",
+        "tags.2",
+      ]);
+    });
+  });
+});
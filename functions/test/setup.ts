@@ -0,0 +1,8 @@
+import * as chai from "chai";
+import { initializeApp } from "firebase-admin/app";
+import { jestSnapshotPlugin } from "mocha-chai-jest-snapshot";
+
+chai.use(jestSnapshotPlugin());
+
+// Document references and snapshots are only created, never read
+initializeApp({ projectId: "demo-bq-sync" });
@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import {
+  ParsedFieldDefinition,
+  RuntimeCollectionConfig,
+} from "../src/types/sync-config.interface";
+import {
+  backfillHistoryQuery,
+  backfillMergeQuery,
+  identifier,
+  latestChangeQuery,
+  syncMergeQuery,
+  tableRef,
+} from "../src/utils/sql-builder";
+import { field, runtimeConfig } from "./fixtures";
+
+const START_TIME = "2024-01-01T00:00:00.000Z";
+const END_TIME = "2024-01-01T01:00:00.000Z";
+
+/**
+ * A field of every BigQuery type the extension supports
+ */
+const FIELDS: ParsedFieldDefinition[] = [
+  field("string", "STRING"),
+  field("bool", "BOOL"),
+  field("int64", "INT64"),
+  field("float64", "FLOAT64"),
+  field("numeric", "NUMERIC"),
+  field("bignumeric", "BIGNUMERIC"),
+  field("bigdecimal", "BIGDECIMAL"),
+  field("date", "DATE"),
+  field("datetime", "DATETIME"),
+  field("createdOn", "TIMESTAMP"),
+  field("json", "JSON"),
+  field("geography", "GEOGRAPHY"),
+  field("bytes", "BYTES"),
+  field("time", "TIME"),
+  field("interval", "INTERVAL"),
+  field("dateRange", "RANGE", { rangeElementType: "DATE" }),
+  field("datetimeRange", "RANGE", { rangeElementType: "DATETIME" }),
+  field("timestampRange", "RANGE", { rangeElementType: "TIMESTAMP" }),
+  field("struct", "STRUCT", {
+    fields: [field("name", "STRING"), field("count", "INT64")],
+  }),
+  field("array", "ARRAY", { arrayType: "STRING" }),
+  field("records", "ARRAY", {
+    arrayType: "STRUCT",
+    fields: [field("id", "STRING")],
+  }),
+];
+
+function config(
+  overrides: Partial<RuntimeCollectionConfig> = {}
+): RuntimeCollectionConfig {
+  return runtimeConfig({ fields: FIELDS, ...overrides });
+}
+
+describe("sql-builder", () => {
+  describe("identifier", () => {
+    it("quotes names", () => {
+      expect(identifier("created at")).to.equal("`created at`");
+    });
+
+    it("rejects backticks, dots and empty names", () => {
+      expect(() => identifier("a`b")).to.throw("Invalid BigQuery identifier");
+      expect(() => identifier("a.b")).to.throw("Invalid BigQuery identifier");
+      expect(() => identifier("")).to.throw("Invalid BigQuery identifier");
+    });
+  });
+
+  describe("tableRef", () => {
+    it("quotes the dataset qualified table", () => {
+      expect(tableRef("firestore_sync", "orders-tracker")).to.equal(
+        "`firestore_sync.orders-tracker`"
+      );
+    });
+
+    it("rejects invalid dataset IDs", () => {
+      expect(() => tableRef("firestore-sync", "orders")).to.throw(
+        "Invalid BigQuery dataset ID"
+      );
+      expect(() => tableRef("a.b", "orders")).to.throw(
+        "Invalid BigQuery dataset ID"
+      );
+      expect(() => tableRef("a`b", "orders")).to.throw(
+        "Invalid BigQuery dataset ID"
+      );
+    });
+
+    it("rejects invalid table names", () => {
+      expect(() => tableRef("firestore_sync", "a`b")).to.throw(
+        "Invalid BigQuery identifier"
+      );
+      expect(() => tableRef("firestore_sync", "a.b")).to.throw(
+        "Invalid BigQuery identifier"
+      );
+    });
+  });
+
+  describe("latestChangeQuery", () => {
+    it("reads the watermark of the tracker table", () => {
+      expect(latestChangeQuery(config(), START_TIME)).toMatchSnapshot();
+    });
+  });
+
+  describe("syncMergeQuery", () => {
+    it("converts every type out of the tracker table", () => {
+      expect(syncMergeQuery(config(), START_TIME, END_TIME)).toMatchSnapshot();
+    });
+
+    it("maintains the history table in history mode", () => {
+      expect(
+        syncMergeQuery(config({ historyMode: true }), START_TIME, END_TIME)
+      ).toMatchSnapshot();
+    });
+
+    it("rejects invalid column names", () => {
+      expect(() =>
+        syncMergeQuery(
+          config({ fields: [field("a`b", "STRING")] }),
+          START_TIME,
+          END_TIME
+        )
+      ).to.throw("Invalid BigQuery identifier");
+    });
+
+    it("rejects invalid RANGE element types", () => {
+      expect(() =>
+        syncMergeQuery(
+          config({
+            fields: [field("range", "RANGE", { rangeElementType: "TIME" })],
+          }),
+          START_TIME,
+          END_TIME
+        )
+      ).to.throw('Invalid RANGE element type "TIME"');
+    });
+  });
+
+  describe("backfillMergeQuery", () => {
+    it("converts every type out of the staging table", () => {
+      expect(
+        backfillMergeQuery(config(), "orders-backfill-1")
+      ).toMatchSnapshot();
+    });
+  });
+
+  describe("backfillHistoryQuery", () => {
+    it("starts the history of backfilled documents", () => {
+      expect(
+        backfillHistoryQuery(
+          config({ historyMode: true }),
+          "orders-backfill-1",
+          START_TIME
+        )
+      ).toMatchSnapshot();
+    });
+  });
+});